@@ -9,11 +9,17 @@ import * as path from "path";
 import * as url from "url";
 import { autoUpdater } from "electron-updater";
 import { OBS } from "./src/worker/obs";
+import { OSC } from "./src/worker/osc";
 import { Store } from "./src/app/_helpers/store";
 import { Slide } from "./src/app/_classes/slide";
+import { Overlay } from "./src/app/_classes/overlay";
+import { MediaAction } from "./src/app/_classes/mediaProgress";
+import { AudioTrack, AudioTrackAction } from "./src/app/_classes/audioTrack";
+import { OscMessage } from "./src/app/_classes/oscMessage";
 
 let win: BrowserWindow = null;
 let obs: OBS = null;
+const osc = new OSC();
 const args = process.argv.slice(1);
 const serve = args.some((val) => val === "--serve");
 
@@ -83,12 +89,50 @@ function createWindow(): BrowserWindow {
                 obs = undefined;
             }
             obs = new OBS(win);
+            obs.mediaEnded.subscribe((slideId) => {
+                win.webContents.send("media-ended", slideId);
+            });
+            obs.transitionStarted.subscribe((transition) => {
+                win.webContents.send("transition-started", transition);
+            });
+            obs.projectorClosed.subscribe((id) => {
+                win.webContents.send("projector-closed", id);
+            });
+            obs.presenterClosed.subscribe(() => {
+                win.webContents.send("presenter-closed");
+            });
+            obs.mediaProgress.subscribe((progress) => {
+                win.webContents.send("media-progress", progress);
+                obs.sendToPresenter("media-progress", progress);
+            });
+            obs.audioTrackState.subscribe((state) => {
+                win.webContents.send("audio-track-state", state);
+            });
+            obs.audioLevels.subscribe((levels) => {
+                win.webContents.send("audio-levels", levels);
+            });
             break;
         default:
             // eslint-disable-next-line no-console
             console.log("unknown event:", action, data);
         }
     });
+    osc.messages.subscribe((message) => {
+        win.webContents.send("osc-message", message);
+    });
+    osc.errors.subscribe((error) => {
+        win.webContents.send("osc-error", error);
+    });
+    // Started by the renderer when it is ready to handle the messages
+    ipcMain.on("osc-init", () => {
+        osc.updateSettings();
+    });
+    ipcMain.on("osc-settings-changed", () => {
+        osc.updateSettings();
+    });
+    ipcMain.on("osc-send", (message) => {
+        osc.send(message as unknown as OscMessage);
+    });
     ipcMain.on("preview-init", (bounds) => {
         ipcMain.emit("preview-height", obs.setupPreview(win, bounds));
     });
@@ -96,23 +140,87 @@ function createWindow(): BrowserWindow {
     ipcMain.on("preview-bounds", (bounds) => {
         ipcMain.emit("preview-height", obs.resizePreview(bounds));
     });
-    ipcMain.on("projector-init", () => {
-        obs.setupProjector(win);
+    ipcMain.on("studio-preview-init", (bounds) => {
+        obs.setupStudioPreview(win, bounds);
+    });
+    ipcMain.on("studio-preview-bounds", (bounds) => {
+        obs.resizeStudioPreview(bounds);
+    });
+    ipcMain.on("studio-preview-end", () => {
+        obs.endStudioPreview();
+    });
+    ipcMain.on("preview-slide", (slide) => {
+        obs.previewScene((slide as unknown as Slide).id);
+    });
+    ipcMain.on("projector-init", (data) => {
+        const { id, bounds } = data as unknown as { id: string; bounds?: Electron.Rectangle };
+        obs.setupProjector(id, win, bounds);
+    });
+    ipcMain.on("projector-end", (id) => {
+        obs.endProjector(id as unknown as string);
+    });
+    ipcMain.on("presenter-open", (bounds) => {
+        obs.setupPresenter(getAssetUrl("presenter.html"), bounds as unknown as Electron.Rectangle);
+    });
+    ipcMain.on("presenter-close", () => {
+        obs.endPresenter();
+    });
+    ipcMain.on("presenter-state", (state) => {
+        obs.sendToPresenter("presenter-state", state);
+    });
+    // Sent by the presenter window itself
+    ipcMain.on("presenter-ready", () => {
+        win.webContents.send("presenter-ready");
+    });
+    ipcMain.on("presenter-live-bounds", (event, bounds) => {
+        obs.resizePresenterDisplay(bounds);
     });
-    ipcMain.on("projector-end", () => {
-        obs.endProjector();
+    ipcMain.on("media-control", (data) => {
+        const { action, value } = data as unknown as { action: MediaAction; value?: number };
+        obs.controlMedia(action, value);
+    });
+    ipcMain.on("audio-track-set", (track) => {
+        obs.setAudioTrack(track as unknown as AudioTrack);
+    });
+    ipcMain.on("audio-track-control", (data) => {
+        const { action, value } = data as unknown as { action: AudioTrackAction; value?: number };
+        obs.controlAudioTrack(action, value);
+    });
+    ipcMain.on("audio-track-play-slide", (slide) => {
+        obs.playAudioSlide(slide as unknown as Slide);
+    });
+    ipcMain.on("master-volume", (volume) => {
+        obs.setMasterVolume(volume as unknown as number);
+    });
+    ipcMain.on("monitoring-devices-get", () => {
+        win.webContents.send("monitoring-devices", obs.getMonitoringDevices());
     });
     ipcMain.on("add-slides", (slides) => {
         for (const slide of slides as unknown as Slide[]) {
-            obs.addFile(slide);
+            try {
+                obs.addFile(slide);
+            } catch (e) {
+                // eslint-disable-next-line no-console
+                console.error(`Couldn't add slide ${slide.id}:`, e);
+            }
         }
     });
-    ipcMain.on("transition-to", (slide) => {
-        obs.transitionTo((slide as unknown as Slide).id);
+    ipcMain.on("transition-to", (data) => {
+        const slide = data as unknown as Slide;
+        obs.transitionTo(slide.id, slide.transition);
     });
     ipcMain.on("transition-to-default-slide", (slide) => {
         obs.transitionToDefaultSlide(slide as unknown as "black" | "logo" | "customLogo");
     });
+    ipcMain.on("set-overlays", (overlays) => {
+        obs.setOverlays(overlays as unknown as Overlay[]);
+    });
+    ipcMain.on("show-overlay", (id) => {
+        obs.setOverlayVisible(id as unknown as string, true);
+    });
+    ipcMain.on("hide-overlay", (id) => {
+        obs.setOverlayVisible(id as unknown as string, false);
+    });
     ipcMain.on("update-properties", (slide) => {
         obs.updateProperties(slide as unknown as Slide);
     });
@@ -120,7 +228,7 @@ function createWindow(): BrowserWindow {
         obs.clearSlides();
     });
     ipcMain.on("settings-changed", () => {
-        obs.updateSettings(win);
+        obs.updateSettings();
     });
     ipcMain.on("shutdown", () => {
         obs.shutdown();
@@ -132,6 +240,7 @@ function createWindow(): BrowserWindow {
         // in an array if your app supports multi windows, this is the time
         // when you should delete the corresponding element.
         obs.shutdown();
+        osc.stop();
         app.quit();
     });
 
@@ -153,6 +262,17 @@ try {
     // throw e;
 }
 
+function getAssetUrl(file: string) {
+    if (serve) {
+        return `http://localhost:4200/assets/${file}`;
+    }
+    return url.format({
+        pathname: path.join(__dirname, "dist/assets", file),
+        protocol: "file:",
+        slashes: true,
+    });
+}
+
 function storeWindowState(store: Store) {
     const {
         width, height, x, y,
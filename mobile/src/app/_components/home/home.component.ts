@@ -3,6 +3,7 @@ import { BarcodeScanner } from "nativescript-barcodescanner";
 import * as dialogs from "tns-core-modules/ui/dialogs";
 import { Router } from "@angular/router";
 import { ConnectionService } from "../../_services/connection.service";
+import { DiscoveryService, DiscoveredDesktop } from "../../_services/discovery.service";
 
 @Component({
     selector: "Home",
@@ -10,7 +11,33 @@ import { ConnectionService } from "../../_services/connection.service";
     styleUrls: ["./home.component.scss"],
 })
 export class HomeComponent {
-    constructor(public connectionService: ConnectionService, private router: Router) { }
+    constructor(
+        public connectionService: ConnectionService,
+        public discoveryService: DiscoveryService,
+        private router: Router,
+    ) { }
+
+    public ngOnInit(): void {
+        this.discoveryService.start();
+    }
+
+    public ngOnDestroy(): void {
+        this.discoveryService.stop();
+    }
+
+    public connectToDesktop(desktop: DiscoveredDesktop): void {
+        dialogs.prompt({
+            title: `Connect to ${desktop.name}`,
+            message: "Type in the pairing code shown in AGView Desktop",
+            okButtonText: "Connect",
+            inputType: dialogs.inputType.text,
+        }).then((c) => {
+            if (c.result) {
+                this.connect(desktop.ip, c.text.trim(), desktop.port);
+            }
+        });
+    }
+
     public scan(): void {
         const barcodeScanner = new BarcodeScanner();
         barcodeScanner.scan({
@@ -27,7 +54,8 @@ export class HomeComponent {
             presentInRootViewController: true,
         }).then((result) => {
             if (result.text.startsWith("agview://")) {
-                this.connect(result.text.replace("agview://", ""));
+                const [ip, pairingCode] = result.text.replace("agview://", "").split("/");
+                this.connect(ip, pairingCode);
             }
         }, () => undefined);
     }
@@ -39,12 +67,26 @@ export class HomeComponent {
             okButtonText: "Connect",
             defaultText: "192.168.178.100",
             inputType: dialogs.inputType.text,
-        }).then((r) => this.connect(r.text));
+        }).then((r) => {
+            if (!r.result) {
+                return;
+            }
+            dialogs.prompt({
+                title: "Connect",
+                message: "Type in the pairing code shown in AGView Desktop",
+                okButtonText: "Connect",
+                inputType: dialogs.inputType.text,
+            }).then((c) => {
+                if (c.result) {
+                    this.connect(r.text, c.text.trim());
+                }
+            });
+        });
     }
 
-    private connect(ip: string): void {
-        this.connectionService.connect(ip).then(() => undefined, () => {
-            dialogs.alert("Something went wrong.");
+    private connect(ip: string, pairingCode: string, port?: number): void {
+        this.connectionService.connect(ip, pairingCode, port).then(() => undefined, (error) => {
+            dialogs.alert(error || "Something went wrong.");
         });
     }
 
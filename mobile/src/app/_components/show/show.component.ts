@@ -1,4 +1,5 @@
 import { Component, ViewChild } from "@angular/core";
+import { Subscription } from "rxjs";
 import * as dialogs from "tns-core-modules/ui/dialogs";
 import { Router } from "@angular/router";
 import { ListViewEventData, ListViewGridLayout, ListViewLinearLayout } from "nativescript-ui-listview";
@@ -12,14 +13,64 @@ import { ConnectionService } from "../../_services/connection.service";
 })
 export class ShowComponent {
     public slides: any[] = [];
+    public sections: any[] = [];
     public gridLayout = false;
+    public studioMode = false;
+    public selectedIdx: number;
+    public program: { slideId?: string; defaultScene?: "black" | "logo" | "customLogo" } = {};
+    public transitionProgress: number;
+    // Position of the live video, pushed about once per second
+    public media: { slideId: string; time: number; duration: number; paused: boolean; ended: boolean };
+    public remainingTime: string;
+    private mediaReceivedAt: number;
+    private transitionTimer: NodeJS.Timeout;
+    private countdownTimer: NodeJS.Timeout;
+    private eventsSubscription: Subscription;
     @ViewChild("listview") private listview: RadListViewComponent;
-    constructor(private connectionService: ConnectionService, private router: Router) { }
+    constructor(public connectionService: ConnectionService, private router: Router) { }
 
     public ngOnInit(): void {
+        this.load();
+        this.countdownTimer = setInterval(() => this.updateCountdown(), 500);
+    }
+
+    // Also called again after a show was opened from the mobile
+    private load() {
+        if (this.eventsSubscription) {
+            this.eventsSubscription.unsubscribe();
+        }
+        this.eventsSubscription = this.connectionService.events.subscribe(({ event, data }) => {
+            switch (event) {
+            case "slides":
+                this.setSlides(data);
+                this.refreshList();
+                break;
+            case "selection":
+                this.selectedIdx = data.idx;
+                this.refreshList();
+                break;
+            case "program":
+                this.program = data;
+                this.refreshList();
+                break;
+            case "transition":
+                this.transitionStarted(data.duration);
+                break;
+            case "media":
+                this.media = data;
+                this.mediaReceivedAt = Date.now();
+                this.updateCountdown();
+                break;
+            case "role":
+                this.refreshList();
+                break;
+            default:
+                break;
+            }
+        });
         this.connectionService.get("slides").subscribe((data) => {
             if (data && data.slides) {
-                this.slides = data.slides;
+                this.setSlides(data);
                 if (this.slides.length == 0) {
                     this.noShowLoaded();
                 }
@@ -38,14 +89,105 @@ export class ShowComponent {
         });
     }
 
+    private setSlides(data: any) {
+        this.sections = data.sections || [];
+        this.slides = data.slides.map((slide) => ({
+            ...slide,
+            sectionName: (this.sections.find((s) => s.id == slide.sectionId) || {}).name || "",
+        }));
+        this.studioMode = data.studioMode;
+    }
+
+    public ngOnDestroy(): void {
+        this.eventsSubscription.unsubscribe();
+        clearInterval(this.transitionTimer);
+        clearInterval(this.countdownTimer);
+    }
+
+    private refreshList() {
+        if (this.listview) {
+            this.listview.nativeElement.refresh();
+        }
+    }
+
+    private transitionStarted(duration: number) {
+        clearInterval(this.transitionTimer);
+        if (!duration) {
+            this.transitionProgress = undefined;
+            return;
+        }
+        const start = Date.now();
+        this.transitionProgress = 0;
+        this.transitionTimer = setInterval(() => {
+            this.transitionProgress = Math.min((Date.now() - start) / duration, 1) * 100;
+            if (this.transitionProgress >= 100) {
+                clearInterval(this.transitionTimer);
+                this.transitionProgress = undefined;
+            }
+        }, 50);
+    }
+
+    // Counts down between the updates from the desktop
+    private updateCountdown() {
+        if (!this.media || !this.media.duration) {
+            this.remainingTime = undefined;
+            return;
+        }
+        const { media } = this;
+        const played = media.paused || media.ended ? 0 : Date.now() - this.mediaReceivedAt;
+        const seconds = Math.max(0, Math.ceil((media.duration - media.time - played) / 1000));
+        this.remainingTime = `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+    }
+
+    // The slide on the projector, or the selected one while a default scene is shown
+    public get currentSlide(): any {
+        return this.slides.find((s) => s.id == this.program.slideId)
+            || this.slides[this.selectedIdx];
+    }
+
+    public get nextSlide(): any {
+        const { currentSlide } = this;
+        return currentSlide ? this.slides[this.slides.indexOf(currentSlide) + 1] : undefined;
+    }
+
+    public isLive(slide: Record<string, string>): boolean {
+        return this.program.slideId == slide.id;
+    }
+
+    public isSelected(slide: Record<string, string>): boolean {
+        return this.slides.indexOf(slide) == this.selectedIdx;
+    }
+
+    // Mirrors the checks of AGView Desktop, which refuses everything else
+    public canSelect(slide: Record<string, string>): boolean {
+        const { role } = this.connectionService;
+        const selectedSlide = this.slides[this.selectedIdx];
+        return role == "operator" || (role == "presenter" && !!selectedSlide
+            && selectedSlide.sectionId == slide.sectionId);
+    }
+
+    public groupBySection = (slide: Record<string, string>): string => slide.sectionName;
+
     public showSlide(slide: Record<string, string>): void {
-        this.connectionService.post("show", { slideId: slide.id }).subscribe();
+        if (!this.canSelect(slide)) {
+            return;
+        }
+        this.connectionService.post("show", { slideId: slide.id })
+            .subscribe(() => undefined, (e) => this.showError(e));
+    }
+
+    public take(): void {
+        this.connectionService.post("take", {}).subscribe(() => undefined, (e) => this.showError(e));
+    }
+
+    private showError(error: any) {
+        dialogs.alert(error && error.error && error.error.error ? error.error.error : "Unknown error occured");
     }
 
     public refreshSlides(args: ListViewEventData) {
         this.connectionService.get("slides").subscribe((data) => {
             if (data && data.slides) {
-                this.slides = data.slides;
+                this.setSlides(data);
                 const listView = args.object;
                 listView.notifyPullToRefreshFinished();
                 this.listview.nativeElement.refresh();
@@ -59,10 +201,14 @@ export class ShowComponent {
     }
 
     public getSlideThumbnailImageSource(slide: Record<string, string>): string {
-        return `${this.connectionService.apiUrl}thumbnails/${slide.id}`;
+        return this.connectionService.getAuthenticatedUrl(`thumbnails/${slide.id}`);
     }
 
     private noShowLoaded() {
+        if (this.connectionService.role != "operator") {
+            dialogs.alert("No show is loaded in AGView Desktop yet.");
+            return;
+        }
         dialogs.confirm({
             title: "No show loaded",
             message: "Do you want to open a recent show?",
@@ -80,7 +226,7 @@ export class ShowComponent {
                         this.connectionService.post("openRecentShow", { show }).subscribe((d) => {
                             if (d && d.success) {
                                 dialogs.alert("Show loaded successfully!");
-                                this.ngOnInit();
+                                this.load();
                             } else {
                                 dialogs.alert("Unknown error occurred");
                             }
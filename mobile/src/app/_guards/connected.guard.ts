@@ -1,14 +1,33 @@
 import { Injectable } from "@angular/core";
-import { CanActivate, Router } from "@angular/router";
+import {
+    ActivatedRouteSnapshot, CanActivate, Router, RouterStateSnapshot,
+} from "@angular/router";
 import * as dialogs from "tns-core-modules/ui/dialogs";
 import { ConnectionService } from "../_services/connection.service";
 
 @Injectable({ providedIn: "root" })
 export class ConnectedGuard implements CanActivate {
-    constructor(private connectionService: ConnectionService, private router: Router) { }
+    // Routes which were allowed by this guard
+    private guardedUrls = new Set<string>();
 
-    public canActivate(): boolean {
-        if (this.connectionService.isConnected) {
+    constructor(private connectionService: ConnectionService, private router: Router) {
+        // While the connection is lost, the pages stay open and show it, see the
+        // connection banner. Once it's gone for good, they can't be used anymore.
+        this.connectionService.status.subscribe((status) => {
+            if (status == "disconnected" && this.guardedUrls.has(this.router.url)) {
+                dialogs.alert({
+                    title: "Disconnected",
+                    message: "The connection to AGView Desktop has ended. Please connect again.",
+                    okButtonText: "Go to the 'Connect' page",
+                });
+                this.router.navigate(["/home"]);
+            }
+        });
+    }
+
+    public canActivate(route: ActivatedRouteSnapshot, state: RouterStateSnapshot): boolean {
+        if (this.connectionService.status.value != "disconnected") {
+            this.guardedUrls.add(state.url);
             return true;
         }
         dialogs.alert({
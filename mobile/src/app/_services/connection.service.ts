@@ -1,18 +1,38 @@
-import { Injectable } from "@angular/core";
-import { HttpClient } from "@angular/common/http";
-import { Observable } from "rxjs";
+import { Injectable, NgZone } from "@angular/core";
+import { HttpClient, HttpHeaders } from "@angular/common/http";
+import { BehaviorSubject, Observable, Subject } from "rxjs";
+import { tap, timeout } from "rxjs/operators";
 import { Device } from "@nativescript/core";
+import { SSE } from "nativescript-sse";
+
+// AGView Desktop marks mobiles without heartbeat for 15 seconds as lost
+const HEARTBEAT_INTERVAL = 5 * 1000;
+const HEARTBEAT_TIMEOUT = 4 * 1000;
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+export type ConnectionStatus = "disconnected" | "connected" | "connectionLost";
 
 @Injectable({ providedIn: "root" })
 export class ConnectionService {
-    public socketConnection: any;
     public apiUrl: string;
-    constructor(private httpClient: HttpClient) {}
-    private _isConnected = false;
-    public async connect(ip: string): Promise<void> {
+    // Pushed by AGView Desktop: show, slides, selection, program, transition and role
+    public events: Subject<{ event: string; data: any }> = new Subject();
+    // Assigned on the desktop, viewers can't change anything and presenters
+    // can only move within the current section
+    public role: "viewer" | "presenter" | "operator" = "viewer";
+    public status = new BehaviorSubject<ConnectionStatus>("disconnected");
+    public ip: string;
+    private eventSource: SSE;
+    private heartbeatTimer: NodeJS.Timeout;
+    private reconnectTimer: NodeJS.Timeout;
+    constructor(private httpClient: HttpClient, private zone: NgZone) {}
+    private token: string;
+    public async connect(ip: string, pairingCode: string, port = 4574): Promise<void> {
         return new Promise<void>((resolve, reject) => {
-            this.apiUrl = `http://${ip}:4574/`;
+            this.ip = ip;
+            this.apiUrl = `http://${ip}:${port}/`;
             this.httpClient.post(`${this.apiUrl}connect`, {
+                pairingCode,
                 device: {
                     model: Device.model,
                     deviceType: Device.deviceType,
@@ -26,27 +46,124 @@ export class ConnectionService {
                 },
             }).subscribe((d: any) => {
                 if (d && d.success === true) {
-                    this._isConnected = true;
+                    this.token = d.token;
+                    this.role = d.role;
+                    this.connected();
                     resolve();
                 } else {
                     reject();
                 }
-            });
+            }, (e) => reject(e && e.error && e.error.error));
         });
     }
     public get(url: string): Observable<any> {
-        return this.httpClient.get(`${this.apiUrl}${url}`);
+        return this.httpClient.get(`${this.apiUrl}${url}`, { headers: this.headers })
+            .pipe(tap({ error: (e) => this.checkPaired(e) }));
     }
     public post(url: string, data: Record<string, unknown>): Observable<any> {
-        return this.httpClient.post(`${this.apiUrl}${url}`, data);
+        return this.httpClient.post(`${this.apiUrl}${url}`, data, { headers: this.headers })
+            .pipe(tap({ error: (e) => this.checkPaired(e) }));
     }
     public disconnect(): void {
-        this.post("disconnect", { deviceId: Device.uuid }).subscribe(() => {
-            this._isConnected = false;
+        if (this.status.value == "connected") {
+            this.post("disconnect", {}).subscribe(() => undefined, () => undefined);
+        }
+        this.reset();
+    }
+
+    private connected(): void {
+        this.status.next("connected");
+        this.listen();
+        clearInterval(this.heartbeatTimer);
+        this.heartbeatTimer = setInterval(() => {
+            this.sendHeartbeat().subscribe(() => undefined, (e) => {
+                if (!e || e.status != 401) {
+                    this.connectionLost();
+                }
+            });
+        }, HEARTBEAT_INTERVAL);
+    }
+
+    private sendHeartbeat(): Observable<any> {
+        return this.post("heartbeat", {}).pipe(timeout(HEARTBEAT_TIMEOUT));
+    }
+
+    // Keeps the token and tries to reach the last IP again, until the desktop refuses it
+    private connectionLost(): void {
+        if (this.status.value != "connected") {
+            return;
+        }
+        clearInterval(this.heartbeatTimer);
+        this.stopListening();
+        this.status.next("connectionLost");
+        this.reconnect(0);
+    }
+
+    private reconnect(attempt: number): void {
+        const delay = Math.min(1000 * 2 ** attempt, MAX_RECONNECT_DELAY);
+        this.reconnectTimer = setTimeout(() => {
+            this.sendHeartbeat().subscribe(() => {
+                if (this.status.value == "connectionLost") {
+                    this.connected();
+                }
+            }, (e) => {
+                if (this.status.value == "connectionLost" && (!e || e.status != 401)) {
+                    this.reconnect(attempt + 1);
+                }
+            });
+        }, delay);
+    }
+
+    private reset(): void {
+        clearInterval(this.heartbeatTimer);
+        clearTimeout(this.reconnectTimer);
+        this.stopListening();
+        this.token = undefined;
+        this.status.next("disconnected");
+    }
+
+    private listen(): void {
+        this.stopListening();
+        this.eventSource = new SSE(`${this.apiUrl}events`, { Authorization: `Bearer ${this.token}` });
+        this.eventSource.events.on("onMessage", (e: any) => {
+            const { event, data } = e.object.message;
+            this.zone.run(() => {
+                if (event == "role") {
+                    this.role = JSON.parse(data).role;
+                }
+                this.events.next({ event, data: JSON.parse(data) });
+            });
         });
+        this.eventSource.events.on("onError", () => {
+            this.zone.run(() => this.connectionLost());
+        });
+        this.eventSource.connect();
+    }
+
+    private stopListening(): void {
+        if (this.eventSource) {
+            this.eventSource.close();
+            this.eventSource = undefined;
+        }
+    }
+
+    // Urls of images can't send headers, so the token is passed as a parameter
+    public getAuthenticatedUrl(url: string): string {
+        return `${this.apiUrl}${url}?token=${this.token}`;
+    }
+
+    private get headers(): HttpHeaders {
+        return new HttpHeaders({ Authorization: `Bearer ${this.token}` });
+    }
+
+    private checkPaired(error: any): void {
+        if (error && error.status == 401) {
+            // the device was revoked or expired on the desktop
+            this.reset();
+        }
     }
 
     public get isConnected(): boolean {
-        return this._isConnected;
+        return this.status.value == "connected";
     }
 }
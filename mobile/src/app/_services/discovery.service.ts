@@ -0,0 +1,124 @@
+import { Injectable, NgZone } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { Application, isAndroid } from "@nativescript/core";
+
+declare const android: any;
+declare const java: any;
+
+// Advertised by AGView Desktop on every interface
+const SERVICE_TYPE = "_agview._tcp.";
+
+export type DiscoveredDesktop = {
+    name: string;
+    ip: string;
+    port: number;
+    show: string;
+};
+
+/**
+ * Browses for AGView Desktop via DNS-SD with the Android NsdManager.
+ * On other platforms nothing is found and the QR code or the IP has to be used.
+ */
+@Injectable({ providedIn: "root" })
+export class DiscoveryService {
+    public desktops = new BehaviorSubject<DiscoveredDesktop[]>([]);
+    private nsdManager: any;
+    private discoveryListener: any;
+    // The NsdManager can only resolve one service at a time
+    private resolveQueue: any[] = [];
+    private resolving = false;
+
+    constructor(private zone: NgZone) {}
+
+    public start(): void {
+        if (!isAndroid || this.discoveryListener) {
+            return;
+        }
+        this.nsdManager = Application.android.context
+            .getSystemService(android.content.Context.NSD_SERVICE);
+        this.discoveryListener = new android.net.nsd.NsdManager.DiscoveryListener({
+            onDiscoveryStarted: () => undefined,
+            onDiscoveryStopped: () => undefined,
+            onStartDiscoveryFailed: () => {
+                this.discoveryListener = undefined;
+            },
+            onStopDiscoveryFailed: () => undefined,
+            onServiceFound: (serviceInfo) => {
+                this.resolveQueue.push(serviceInfo);
+                this.resolveNext();
+            },
+            onServiceLost: (serviceInfo) => {
+                const name = serviceInfo.getServiceName();
+                this.update(this.desktops.value.filter((d) => d.name != name));
+            },
+        });
+        this.nsdManager.discoverServices(
+            SERVICE_TYPE,
+            android.net.nsd.NsdManager.PROTOCOL_DNS_SD,
+            this.discoveryListener,
+        );
+    }
+
+    public stop(): void {
+        if (!this.discoveryListener) {
+            return;
+        }
+        this.nsdManager.stopServiceDiscovery(this.discoveryListener);
+        this.discoveryListener = undefined;
+        this.resolveQueue = [];
+        this.update([]);
+    }
+
+    private resolveNext() {
+        if (this.resolving || this.resolveQueue.length == 0) {
+            return;
+        }
+        this.resolving = true;
+        const done = () => {
+            this.resolving = false;
+            this.resolveNext();
+        };
+        this.nsdManager.resolveService(
+            this.resolveQueue.shift(),
+            new android.net.nsd.NsdManager.ResolveListener({
+                onServiceResolved: (serviceInfo) => {
+                    this.found(serviceInfo);
+                    done();
+                },
+                onResolveFailed: () => done(),
+            }),
+        );
+    }
+
+    private found(serviceInfo: any) {
+        const txt = this.getTxt(serviceInfo);
+        const desktop: DiscoveredDesktop = {
+            name: serviceInfo.getServiceName(),
+            // the address of the interface the service was announced for
+            ip: txt.ip || serviceInfo.getHost().getHostAddress(),
+            port: serviceInfo.getPort(),
+            show: txt.show || "",
+        };
+        this.update([...this.desktops.value.filter((d) => d.name != desktop.name), desktop]);
+    }
+
+    private getTxt(serviceInfo: any): { [key: string]: string } {
+        const txt = {};
+        // TXT records are only available since Android 5
+        if (android.os.Build.VERSION.SDK_INT < 21) {
+            return txt;
+        }
+        const attributes = serviceInfo.getAttributes();
+        const keys = attributes.keySet().toArray();
+        for (let i = 0; i < keys.length; i++) {
+            const value = attributes.get(keys[i]);
+            txt[keys[i]] = value ? new java.lang.String(value, "UTF-8").toString() : "";
+        }
+        return txt;
+    }
+
+    // The listeners are called from a background thread
+    private update(desktops: DiscoveredDesktop[]) {
+        this.zone.run(() => this.desktops.next(desktops));
+    }
+}
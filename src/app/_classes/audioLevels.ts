@@ -0,0 +1,14 @@
+// Levels below are shown as silence
+export const MIN_AUDIO_LEVEL = -60;
+
+// Peak levels in dBFS per audio channel, reported by OBS about ten times per second
+export type AudioLevels = {
+    // Empty when the live slide has no audio or the music is stopped
+    slide: number[];
+    music: number[];
+};
+
+export type AudioDevice = {
+    id: string;
+    name: string;
+};
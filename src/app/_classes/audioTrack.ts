@@ -0,0 +1,66 @@
+import { Save } from "../_decorators/save.decorator";
+
+export type AudioTrackItem = {
+    id: string;
+    name: string;
+    filePath: string;
+};
+
+export type AudioTrackAction = "play" | "stop" | "next" | "previous" | "volume";
+
+/**
+ * Background music of a show. It is played on its own output channel,
+ * so it keeps playing when the slides change.
+ */
+export class AudioTrack {
+    // Played in order, audio slides are played without changing the playlist
+    @Save
+    public items: AudioTrackItem[];
+
+    // Starts again with the first item after the last one
+    @Save
+    public loop: boolean;
+
+    /** Between 0 and 1 */
+    @Save
+    public volume: number;
+
+    // Fade durations in milliseconds, also used when switching between items
+    @Save
+    public fadeIn: number;
+
+    @Save
+    public fadeOut: number;
+
+    // Lowers the volume while a video with audio is live
+    @Save
+    public ducking: boolean;
+
+    /** Factor of the volume while ducked, between 0 and 1 */
+    @Save
+    public duckingVolume: number;
+
+    constructor() {
+        this.items = [];
+        this.loop = true;
+        this.volume = 1;
+        this.fadeIn = 1000;
+        this.fadeOut = 2000;
+        this.ducking = true;
+        this.duckingVolume = 0.2;
+    }
+}
+
+// Reported by OBS about five times per second while the audio track is playing
+export type AudioTrackState = {
+    /** Id of the playlist item, or of the slide for audio slides */
+    id: string;
+    name: string;
+    slideId?: string;
+    /** Position and length in milliseconds */
+    time: number;
+    duration: number;
+    /** Between 0 and 1, without the ducking */
+    volume: number;
+    ducked: boolean;
+};
@@ -0,0 +1,21 @@
+// Assigned on the desktop, see mobileRoles
+export type MobileRole = "viewer" | "presenter" | "operator";
+
+export type ConnectedMobile = {
+    device: {
+        model: string;
+        deviceType: string;
+        os: string;
+        osVersion: string;
+        sdkVersion: string;
+        language: string;
+        manufacturer: string;
+        uuid: string;
+        region: string;
+    };
+    // Sent by the mobile with every request after pairing
+    token: string;
+    role: MobileRole;
+    // Timestamp of the last request, mobiles send heartbeats while they are connected
+    lastSeen: number;
+};
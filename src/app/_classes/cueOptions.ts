@@ -0,0 +1,9 @@
+export type FollowAction = "stop" | "next" | "slide" | "black" | "logo" | "customLogo";
+
+export type CueOptions = {
+    /** Seconds an image, text or HTML slide stays up, 0 means until the operator moves on */
+    holdDuration: number;
+    loop: boolean;
+    followAction: FollowAction;
+    followSlideId?: string;
+}
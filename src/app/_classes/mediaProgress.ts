@@ -0,0 +1,13 @@
+export type MediaAction = "play" | "pause" | "restart" | "seek" | "volume";
+
+// Reported by OBS for the live video about five times per second
+export type MediaProgress = {
+    slideId: string;
+    /** Position and length in milliseconds */
+    time: number;
+    duration: number;
+    paused: boolean;
+    ended: boolean;
+    /** Between 0 and 1 */
+    volume: number;
+};
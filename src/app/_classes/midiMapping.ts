@@ -0,0 +1,22 @@
+export type MidiMessageType = "note" | "controlChange" | "programChange";
+
+// Identifies a key, controller or program, channels are 1 to 16
+export type MidiTrigger = {
+    type: MidiMessageType;
+    channel: number;
+    number: number;
+};
+
+export type MidiEvent = MidiTrigger & {
+    /** Velocity or controller value, 0 for note off */
+    value: number;
+};
+
+export type MidiAction = "next" | "previous" | "first" | "last" | "black" | "customLogo" | "logo" | "slide";
+
+export type MidiMapping = {
+    trigger: MidiTrigger;
+    action: MidiAction;
+    /** Only for "slide", starting at 1 */
+    slideNumber?: number;
+};
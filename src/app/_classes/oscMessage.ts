@@ -0,0 +1,6 @@
+export type OscArgument = number | string | boolean | null;
+
+export type OscMessage = {
+    address: string;
+    args: OscArgument[];
+};
@@ -0,0 +1,40 @@
+import { Save } from "../_decorators/save.decorator";
+import { TextOptions } from "./textOptions";
+
+export type OverlayType = "text" | "image" | "browser";
+
+export class Overlay {
+    @Save
+    public id: string;
+
+    @Save
+    public name: string;
+
+    @Save
+    public type: OverlayType;
+
+    // Image and HTML overlays
+    @Save
+    public filePath?: string;
+
+    // Text overlays
+    @Save
+    public text?: TextOptions;
+
+    // Top left corner of the overlay in pixels of the output resolution
+    @Save
+    public position: { x: number; y: number };
+
+    // Fade durations in milliseconds
+    @Save
+    public fadeIn: number;
+
+    @Save
+    public fadeOut: number;
+
+    constructor() {
+        this.position = { x: 0, y: 0 };
+        this.fadeIn = 300;
+        this.fadeOut = 300;
+    }
+}
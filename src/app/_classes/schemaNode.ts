@@ -0,0 +1,26 @@
+export type SchemaNode = ({
+    type: "string";
+    enum?: string[];
+} | {
+    type: "number";
+    min?: number;
+    max?: number;
+} | {
+    type: "boolean";
+} | {
+    type: "object";
+    properties: { [key: string]: SchemaNode };
+} | {
+    type: "array";
+    items: SchemaNode;
+} | {
+    type: "oneOf";
+    options: SchemaNode[];
+}) & {
+    optional?: boolean;
+};
+
+export type SchemaError = {
+    path: string;
+    message: string;
+};
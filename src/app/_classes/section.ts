@@ -0,0 +1,9 @@
+import { Save } from "../_decorators/save.decorator";
+
+export class Section {
+    @Save
+    public id: string;
+
+    @Save
+    public name: string;
+}
@@ -0,0 +1,17 @@
+import { Slide } from "./slide";
+import { Section } from "./section";
+import { Overlay } from "./overlay";
+import { AudioTrack } from "./audioTrack";
+
+export type ShowSettings = {
+    [key: string]: unknown;
+};
+
+export type ShowFile = {
+    formatVersion: number;
+    slides: Omit<Slide, "thumbnail">[];
+    sections: Section[];
+    overlays?: Overlay[];
+    audioTrack?: AudioTrack;
+    settings: ShowSettings;
+};
@@ -1,5 +1,8 @@
 import { Save } from "../_decorators/save.decorator";
 import { AlignmentOptions } from "./alignmentOptions";
+import { CueOptions } from "./cueOptions";
+import { TransitionOptions } from "./transitionOptions";
+import { TextOptions } from "./textOptions";
 import { SlideType } from "../_globals/supportedFilesFilters";
 
 export class Slide {
@@ -18,13 +21,53 @@ export class Slide {
     @Save
     public alignment: AlignmentOptions;
 
+    @Save
+    public fileSize?: number;
+
+    // Slides without a section are shown above the first section
+    @Save
+    public sectionId?: string;
+
+    @Save
+    public cue: CueOptions;
+
+    // Only set for text slides
+    @Save
+    public text?: TextOptions;
+
+    // Overrides the default transition from the settings when set
+    @Save
+    public transition?: TransitionOptions;
+
+    // Speaker notes as simple HTML, see sanitizeNotes
+    @Save
+    public notes?: string;
+
+    // Accelerator which selects and takes the slide
+    @Save
+    public hotkey?: string;
+
+    // Only used for video and audio slides, between 0 and 1
+    @Save
+    public volume?: number;
+
+    @Save
+    public muted?: boolean;
+
     public thumbnail?: string;
 
+    public missing?: boolean;
+
     constructor() {
         this.alignment = {
             alignment: "center",
             padding: 0,
             scale: "fit",
         };
+        this.cue = {
+            holdDuration: 0,
+            loop: true,
+            followAction: "stop",
+        };
     }
 }
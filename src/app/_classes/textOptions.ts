@@ -0,0 +1,15 @@
+export type TextOptions = {
+    /** Text of slides stored in the show, undefined if the text is read from the file */
+    content?: string;
+    fontFace: string;
+    fontSize: number;
+    color: string;
+    backgroundColor: string;
+    /** 0 - 100 */
+    backgroundOpacity: number;
+    outline: boolean;
+    outlineColor: string;
+    outlineSize: number;
+    wrap: boolean;
+    align: "left" | "center" | "right";
+}
@@ -0,0 +1,16 @@
+import { TransitionTypes } from "../_globals/transitionTypes";
+
+export type TransitionOptions = {
+    type: TransitionTypes;
+    /** Duration in milliseconds, ignored by cuts and stingers */
+    duration: number;
+    /** Swipe and slide transitions */
+    direction?: "left" | "right" | "up" | "down";
+    /** Fade to color transitions */
+    color?: string;
+    /** Luma wipe transitions, one of the images shipped with OBS */
+    lumaImage?: string;
+    /** Stinger transitions */
+    stingerFile?: string;
+    stingerTransitionPoint?: number;
+}
@@ -0,0 +1,86 @@
+import { Component, ChangeDetectorRef, ChangeDetectionStrategy } from "@angular/core";
+import { Subscription } from "rxjs";
+import { MixerService } from "../../_services/mixer.service";
+import { AudioTrackService } from "../../_services/audio-track.service";
+import { MediaService } from "../../_services/media.service";
+import { ProgramService } from "../../_services/program.service";
+import { ShowService } from "../../_services/show.service";
+import { AudioLevels, MIN_AUDIO_LEVEL } from "../../_classes/audioLevels";
+import { AudioTrack } from "../../_classes/audioTrack";
+import { MediaProgress } from "../../_classes/mediaProgress";
+import { Slide } from "../../_classes/slide";
+
+// Shown while nothing is playing
+const SILENCE = [MIN_AUDIO_LEVEL, MIN_AUDIO_LEVEL];
+
+@Component({
+    selector: "audio-mixer",
+    templateUrl: "./audio-mixer.component.html",
+    styleUrls: ["./audio-mixer.component.scss"],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class AudioMixerComponent {
+    public levels: AudioLevels = { slide: [], music: [] };
+    public liveSlide: Slide;
+    public progress: MediaProgress;
+    public audioTrack: AudioTrack;
+    private subscriptions: Subscription[] = [];
+
+    constructor(
+        public mixerService: MixerService,
+        public audioTrackService: AudioTrackService,
+        private mediaService: MediaService,
+        private programService: ProgramService,
+        private showService: ShowService,
+        private cdr: ChangeDetectorRef,
+    ) {}
+
+    public ngOnInit(): void {
+        this.subscriptions = [
+            // the levels and the progress are reported outside of the Angular zone
+            this.mixerService.levels.subscribe((levels) => {
+                this.levels = levels;
+                this.cdr.detectChanges();
+            }),
+            this.mediaService.progress.subscribe((progress) => {
+                this.progress = progress;
+                this.cdr.detectChanges();
+            }),
+            this.audioTrackService.audioTrack.subscribe((audioTrack) => {
+                this.audioTrack = audioTrack;
+                this.cdr.markForCheck();
+            }),
+            this.programService.state.subscribe(() => this.updateLiveSlide()),
+            this.showService.data.subscribe(() => this.updateLiveSlide()),
+        ];
+    }
+
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+    }
+
+    public get slideVolume(): number {
+        return this.progress?.volume ?? this.liveSlide?.volume ?? 1;
+    }
+
+    public channels(levels: number[]): number[] {
+        return levels.length ? levels : SILENCE;
+    }
+
+    // Height of the meter in percent, levels below MIN_AUDIO_LEVEL are empty
+    public meterHeight(level: number): number {
+        return Math.max(0, (1 - level / MIN_AUDIO_LEVEL) * 100);
+    }
+
+    public toggleMute() {
+        this.mixerService.toggleSlideMute();
+        this.updateLiveSlide();
+    }
+
+    private updateLiveSlide() {
+        this.liveSlide = this.mixerService.liveSlide;
+        this.cdr.markForCheck();
+    }
+}
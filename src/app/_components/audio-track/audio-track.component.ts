@@ -0,0 +1,73 @@
+import { Component, ChangeDetectorRef } from "@angular/core";
+import { remote } from "electron";
+import { Subscription } from "rxjs";
+import { AudioTrackService } from "../../_services/audio-track.service";
+import { SettingsService } from "../../_services/settings.service";
+import { RelinkService } from "../../_services/relink.service";
+import { AudioTrack, AudioTrackItem, AudioTrackState } from "../../_classes/audioTrack";
+import { supportedFiles } from "../../_globals/supportedFilesFilters";
+import { formatDuration } from "../../_helpers/formatDuration";
+
+@Component({
+    selector: "audio-track",
+    templateUrl: "./audio-track.component.html",
+    styleUrls: ["./audio-track.component.scss"],
+})
+export class AudioTrackComponent {
+    public audioTrack: AudioTrack;
+    public state: AudioTrackState;
+    public formatDuration = formatDuration;
+    private subscriptions: Subscription[] = [];
+
+    constructor(
+        public audioTrackService: AudioTrackService,
+        private settingsService: SettingsService,
+        private relinkService: RelinkService,
+        private cdr: ChangeDetectorRef,
+    ) {}
+
+    public ngOnInit(): void {
+        this.subscriptions = [
+            this.audioTrackService.audioTrack.subscribe((audioTrack) => {
+                this.audioTrack = audioTrack;
+            }),
+            // the state is reported outside of the Angular zone
+            this.audioTrackService.state.subscribe((state) => {
+                this.state = state;
+                this.cdr.detectChanges();
+            }),
+        ];
+    }
+
+    public ngOnDestroy(): void {
+        for (const subscription of this.subscriptions) {
+            subscription.unsubscribe();
+        }
+    }
+
+    public add() {
+        const files = remote.dialog.showOpenDialogSync({
+            title: "Add music",
+            properties: ["openFile", "multiSelections"],
+            filters: supportedFiles.filter((f) => f.slideType == "audio")
+                .map((f) => ({ extensions: f.extensions, name: f.prettyName })),
+            defaultPath: this.settingsService.store.get("importSlideDefaultPath"),
+        });
+        if (files && files.length) {
+            this.audioTrackService.addItems(files);
+        }
+    }
+
+    public remove(event: Event, item: AudioTrackItem) {
+        event.stopPropagation();
+        this.audioTrackService.removeItem(item);
+    }
+
+    public isMissing(item: AudioTrackItem): boolean {
+        return this.relinkService.isAudioTrackItemMissing(item);
+    }
+
+    public changed() {
+        this.audioTrackService.save();
+    }
+}
@@ -6,7 +6,8 @@ import { SplitComponent } from "angular-split";
 import * as path from "path";
 import { v4 as uuid } from "uuid";
 import { NgbModal } from "@ng-bootstrap/ng-bootstrap";
-import * as os from "os";
+import { DragulaService } from "ng2-dragula";
+import * as fs from "fs";
 import { execSync } from "child_process";
 import * as sudo from "sudo-prompt";
 import { PreviewComponent } from "../preview/preview.component";
@@ -14,8 +15,24 @@ import { SettingsService } from "../../_services/settings.service";
 import { ShowService } from "../../_services/show.service";
 import { ThumbnailService } from "../../_services/thumbnail.service";
 import { Slide } from "../../_classes/slide";
+import { AudioTrackItem } from "../../_classes/audioTrack";
+import { Section } from "../../_classes/section";
 import { supportedFilesFilters, supportedFiles } from "../../_globals/supportedFilesFilters";
 import { MobileService } from "../../_services/mobile.service";
+import { RelinkService } from "../../_services/relink.service";
+import { CueService } from "../../_services/cue.service";
+import { StudioModeService } from "../../_services/studio-mode.service";
+import { DefaultScenesService } from "../../_services/default-scenes.service";
+import { OverlayService } from "../../_services/overlay.service";
+import { AudioTrackService } from "../../_services/audio-track.service";
+import { ProgramService } from "../../_services/program.service";
+import { RemoteApiService } from "../../_services/remote-api.service";
+import { OscService } from "../../_services/osc.service";
+import { MidiService } from "../../_services/midi.service";
+import { defaultTextOptions } from "../../_globals/defaultTextOptions";
+import { isEmbeddedText } from "../../_helpers/isEmbeddedText";
+import { mobileRoles } from "../../_globals/mobileRoles";
+import { getNetworkInterfaces } from "../../_helpers/getNetworkInterfaces";
 
 @Component({
     selector: "app-home",
@@ -27,18 +44,26 @@ export class HomeComponent {
     public mainSplitSize: number;
     public previewSplitSize: number;
     public slides: Slide[] = [];
+    public sections: Section[] = [];
+    // The slides of each section, the first group contains the slides without a section
+    public slideGroups: { section: Section; slides: Slide[] }[] = [];
+    public collapsedSections: string[] = [];
     @ViewChild("preview") private preview: PreviewComponent;
+    @ViewChild("studioPreview") private studioPreview: PreviewComponent;
     @ViewChild("mainSplit") public mainSplit: SplitComponent;
     @ViewChild("rightSplit") public rightSplit: SplitComponent;
     @ViewChild("nameInput") public nameInput: ElementRef;
     public activeDrag = false;
     public thumbnailSize = 5;
     public currentSlideIdx: number;
-    public currentView: "slideSettings" | "globalSettings" | "mobiles" = "slideSettings";
+    public programSlideId: string;
+    public studioMode = false;
+    public currentView: "slideSettings" | "overlays" | "audio" | "globalSettings" | "mobiles" = "slideSettings";
 
     public interfaces: { name: string; ip: string }[] = [];
     public currentInterfaceIndex: number;
     public readonly isWindows = process.platform === "win32";
+    public readonly mobileRoles = mobileRoles;
     private checkForFirewallRule() {
         let ruleExists = false;
         try {
@@ -68,21 +93,23 @@ export class HomeComponent {
         private settingsService: SettingsService,
         private showService: ShowService,
         private thumbnailService: ThumbnailService,
+        private relinkService: RelinkService,
+        private cueService: CueService,
+        private studioModeService: StudioModeService,
+        private defaultScenesService: DefaultScenesService,
+        private overlayService: OverlayService,
+        private audioTrackService: AudioTrackService,
+        private programService: ProgramService,
+        private remoteApiService: RemoteApiService,
+        private oscService: OscService,
+        private midiService: MidiService,
         private cdr: ChangeDetectorRef,
         private modalService: NgbModal,
+        private dragulaService: DragulaService,
     ) {
         this.mainSplitSize = this.settingsService.store.get("mainSplitSize");
         this.previewSplitSize = this.settingsService.store.get("previewSplitSize");
-        const ifaces = os.networkInterfaces();
-
-        for (const ifname of Object.keys(ifaces)) {
-            ifaces[ifname].forEach((iface) => {
-                if (iface.family !== "IPv4" || iface.internal !== false) {
-                    return;
-                }
-                this.interfaces.push({ name: ifname, ip: iface.address });
-            });
-        }
+        this.interfaces = getNetworkInterfaces();
     }
 
     public selectSlide(event, idx) {
@@ -95,12 +122,37 @@ export class HomeComponent {
         setTimeout(() => {
             this.detectChanges();
         }, 50);
-        remote.ipcMain.emit("transition-to", this.slides[idx]);
+        if (this.studioMode) {
+            remote.ipcMain.emit("preview-slide", this.slides[idx]);
+        } else {
+            this.goLive(this.slides[idx]);
+        }
         this.showService.slideIdxChanged.next(
             { idx: this.currentSlideIdx, length: this.slides.length },
         );
     }
 
+    public take() {
+        if (!this.studioMode || !this.slides[this.currentSlideIdx]) {
+            return;
+        }
+        this.goLive(this.slides[this.currentSlideIdx]);
+        this.detectChanges();
+    }
+
+    private goLive(slide: Slide) {
+        if (slide.type == "audio") {
+            // the program keeps showing the current slide while the audio plays
+            this.audioTrackService.playSlide(slide);
+            this.cueService.slideStarted(slide);
+            return;
+        }
+        this.programSlideId = slide.id;
+        remote.ipcMain.emit("transition-to", slide);
+        this.programService.slideLive(slide);
+        this.cueService.slideStarted(slide);
+    }
+
     public deselectSlide() {
         this.currentSlideIdx = undefined;
         this.showService.slideIdxChanged.next(
@@ -115,11 +167,69 @@ export class HomeComponent {
                 this.selectSlide(undefined, idx);
             }
         });
+        this.remoteApiService.slideSelected.subscribe((id) => {
+            const idx = this.slides.findIndex((s) => s.id == id);
+            if (idx > -1) {
+                this.selectSlide(null, idx);
+            }
+        });
+        this.remoteApiService.slideUpdated.subscribe(({ id, properties }) => {
+            const slide = this.slides.find((s) => s.id == id);
+            if (!slide) {
+                return;
+            }
+            for (const [key, value] of Object.entries(properties)) {
+                if (value === null) {
+                    delete slide[key];
+                } else {
+                    slide[key] = value;
+                }
+            }
+            remote.ipcMain.emit("update-properties", slide);
+            this.saveSlides();
+            this.detectChanges();
+        });
+        this.remoteApiService.slideRemoved.subscribe((id) => {
+            const currentSlide = this.slides[this.currentSlideIdx];
+            this.slides = this.slides.filter((s) => s.id != id);
+            const idx = this.slides.indexOf(currentSlide);
+            this.currentSlideIdx = idx > -1 ? idx : undefined;
+            this.updateGroups();
+            this.saveSlides();
+            this.detectChanges();
+            this.showService.slideIdxChanged.next(
+                { idx: this.currentSlideIdx, length: this.slides.length },
+            );
+        });
+        this.cueService.goToSlide.subscribe((id) => {
+            const idx = this.slides.findIndex((s) => s.id == id);
+            if (idx > -1) {
+                this.selectSlide(null, idx);
+                this.take();
+            }
+        });
+        this.defaultScenesService.sceneChanged.subscribe(() => {
+            this.programSlideId = undefined;
+            this.detectChanges();
+        });
+        this.studioModeService.enabled.subscribe((enabled) => {
+            this.studioMode = enabled;
+            this.detectChanges();
+            if (enabled) {
+                const programSlide = this.slides.find((s) => s.id == this.programSlideId);
+                if (programSlide) {
+                    remote.ipcMain.emit("preview-slide", programSlide);
+                }
+            }
+        });
         this.showService.messages.subscribe((message) => {
             switch (message) {
             case "importSlides":
                 this.importSlides();
                 break;
+            case "newTextSlide":
+                this.newTextSlide();
+                break;
             case "renameSlide":
                 if (this.currentSlideIdx === undefined) {
                     break;
@@ -143,8 +253,25 @@ export class HomeComponent {
                 }
                 this.slides = this.slides.filter((s, idx) => idx != this.currentSlideIdx);
                 this.currentSlideIdx = undefined;
+                this.updateGroups();
+                this.saveSlides();
                 this.cdr.detectChanges();
                 break;
+            case "take":
+                this.take();
+                break;
+            case "addSection":
+                this.addSection();
+                break;
+            case "viewNextSection":
+                this.viewSectionRelative(1);
+                break;
+            case "viewPreviousSection":
+                this.viewSectionRelative(-1);
+                break;
+            case "relinkMissingMedia":
+                this.relinkMissingMedia(true);
+                break;
             case "viewFirstSlide":
                 this.selectSlide(null, 0);
                 break;
@@ -169,21 +296,81 @@ export class HomeComponent {
             }
         });
 
+        this.showService.goToSection.subscribe((n) => {
+            const group = this.slideGroups.find((g) => g.section && g.section == this.sections[n]);
+            if (group) {
+                this.viewSection(group);
+            }
+        });
+
         remote.ipcMain.emit("obs-action", "initialize");
+        this.overlayService.init();
+        this.audioTrackService.init();
         this.showService.data.subscribe((data) => {
             if (data && data.slides) {
+                const previousSlides = this.slides;
                 this.slides = data.slides;
+                for (const s of this.slides) {
+                    s.missing = this.relinkService.isMissing(s);
+                    const previous = previousSlides.find((p) => p.id == s.id);
+                    if (previous && previous.filePath == s.filePath) {
+                        s.thumbnail = previous.thumbnail;
+                    }
+                }
                 this.ensureThumbnails();
                 remote.ipcMain.emit("add-slides", this.slides);
             } else {
                 this.slides = [];
             }
+            this.sections = (data && data.sections) || [];
+            if (this.currentSlideIdx >= this.slides.length) {
+                this.currentSlideIdx = undefined;
+            }
+            this.updateGroups();
+            this.detectChanges();
+            this.showService.slideIdxChanged.next(
+                { idx: this.currentSlideIdx, length: this.slides.length },
+            );
+        });
+        // undo and redo shouldn't ask again
+        this.showService.fileLoaded.subscribe(() => {
+            if (this.slides.some((s) => s.missing) || this.missingAudioTrackItems.length) {
+                setTimeout(() => this.relinkMissingMedia());
+            }
+        });
+        let draggedSlideId: string;
+        this.dragulaService.drag.subscribe(([bag]) => {
+            if (bag == "slides") {
+                draggedSlideId = this.slides[this.currentSlideIdx]?.id;
+            }
+        });
+        this.dragulaService.dropModel.subscribe(([bag]) => {
+            if (bag != "slides") {
+                return;
+            }
+            for (const group of this.slideGroups) {
+                for (const slide of group.slides) {
+                    if (group.section) {
+                        slide.sectionId = group.section.id;
+                    } else {
+                        delete slide.sectionId;
+                    }
+                }
+            }
+            this.slides = [].concat(...this.slideGroups.map((g) => g.slides));
+            if (draggedSlideId !== undefined) {
+                this.currentSlideIdx = this.slides.findIndex((s) => s.id == draggedSlideId);
+            }
+            this.saveSlides();
             this.detectChanges();
             this.showService.slideIdxChanged.next(
                 { idx: this.currentSlideIdx, length: this.slides.length },
             );
         });
+        this.mobileService.mobilesChanged.subscribe(() => this.detectChanges());
         this.mobileService.init();
+        this.oscService.init();
+        this.midiService.init();
         this.checkForFirewallRule();
     }
     public detectChanges(propertiesChanged = false) {
@@ -191,16 +378,32 @@ export class HomeComponent {
         if (propertiesChanged && this.currentSlideIdx != undefined
             && this.slides[this.currentSlideIdx]) {
             remote.ipcMain.emit("update-properties", this.slides[this.currentSlideIdx]);
+            this.saveSlides();
+        }
+    }
+    public toggleTransitionOverride() {
+        const slide = this.slides[this.currentSlideIdx];
+        if (slide.transition) {
+            delete slide.transition;
+        } else {
+            slide.transition = { ...this.settingsService.store.get("defaultTransition") };
         }
+        this.detectChanges(true);
     }
     public ngAfterViewInit(): void {
         this.mainSplit.dragProgress$.subscribe(() => {
             this.storeSplitSizes();
             this.preview.onResized();
+            if (this.studioPreview) {
+                this.studioPreview.onResized();
+            }
         });
         this.rightSplit.dragProgress$.subscribe(() => {
             this.storeSplitSizes();
             this.preview.onResized();
+            if (this.studioPreview) {
+                this.studioPreview.onResized();
+            }
         });
     }
 
@@ -241,7 +444,39 @@ export class HomeComponent {
         this.addSlides(files);
     }
 
+    private getSectionForNewSlides() {
+        // new slides are added to the section of the selected slide or to the last section
+        return this.currentSlideIdx !== undefined
+            ? this.sections.find((s) => s.id == this.slides[this.currentSlideIdx].sectionId)
+            : this.sections[this.sections.length - 1];
+    }
+
+    public newTextSlide() {
+        const s = new Slide();
+        s.type = "text";
+        s.id = uuid();
+        s.filePath = "";
+        s.name = "Text";
+        s.text = { ...defaultTextOptions, content: "Text" };
+        s.alignment.scale = { x: 1, y: 1 };
+        const section = this.getSectionForNewSlides();
+        if (section) {
+            s.sectionId = section.id;
+        }
+        this.slides.push(s);
+        this.updateGroups();
+        this.saveSlides();
+        remote.ipcMain.emit("add-slides", [s]);
+        this.currentView = "slideSettings";
+        this.selectSlide(null, this.slides.indexOf(s));
+    }
+
+    public isEmbeddedText(slide: Slide) {
+        return isEmbeddedText(slide);
+    }
+
     private addSlides(files: string[]) {
+        const section = this.getSectionForNewSlides();
         for (const slide of files) {
             const ext = path.extname(slide).replace(".", "");
             const types = supportedFiles.filter((f) => f.extensions.includes(ext.toLowerCase()));
@@ -253,9 +488,17 @@ export class HomeComponent {
             s.type = types[0].slideType;
             s.id = uuid();
             s.filePath = path.normalize(slide);
+            s.fileSize = fs.statSync(s.filePath).size;
             [s.name] = path.basename(slide).split(".");
+            if (s.type == "text") {
+                s.text = { ...defaultTextOptions };
+            }
+            if (section) {
+                s.sectionId = section.id;
+            }
             this.slides.push(s);
         }
+        this.updateGroups();
         this.ensureThumbnails();
         this.saveSlides();
         remote.ipcMain.emit("add-slides", this.slides);
@@ -264,12 +507,204 @@ export class HomeComponent {
         );
     }
 
-    private saveSlides() {
-        this.showService.setData("slides", this.slides);
+    public saveSlides() {
+        this.showService.setMultipleData({ slides: this.slides, sections: this.sections });
+        this.showService.sectionsChanged.next(this.sections);
+    }
+
+    // Orders the slides by their sections and rebuilds the groups shown in the grid
+    private updateGroups() {
+        const currentSlide = this.slides[this.currentSlideIdx];
+        const sectionIds = this.sections.map((s) => s.id);
+        this.slideGroups = [undefined, ...this.sections].map((section) => ({
+            section,
+            slides: this.slides.filter((s) => (section
+                ? s.sectionId == section.id
+                : !sectionIds.includes(s.sectionId))),
+        }));
+        this.slides = [].concat(...this.slideGroups.map((g) => g.slides));
+        if (currentSlide) {
+            this.currentSlideIdx = this.slides.indexOf(currentSlide);
+        }
+        this.showService.sectionsChanged.next(this.sections);
+    }
+
+    public trackGroup(idx: number, group: { section: Section }) {
+        return group.section ? group.section.id : "";
+    }
+
+    public addSection() {
+        const section = new Section();
+        section.id = uuid();
+        section.name = `Section ${this.sections.length + 1}`;
+        this.sections = [...this.sections, section];
+        this.updateGroups();
+        this.saveSlides();
+        this.detectChanges();
+    }
+
+    public removeSection(section: Section) {
+        // the slides of the section are moved to the section above
+        const idx = this.sections.indexOf(section);
+        const previousSection = this.sections[idx - 1];
+        for (const slide of this.slides.filter((s) => s.sectionId == section.id)) {
+            if (previousSection) {
+                slide.sectionId = previousSection.id;
+            } else {
+                delete slide.sectionId;
+            }
+        }
+        this.sections = this.sections.filter((s) => s != section);
+        this.updateGroups();
+        this.saveSlides();
+        this.detectChanges();
+    }
+
+    public moveSection(section: Section, offset: number) {
+        const idx = this.sections.indexOf(section);
+        if (idx + offset < 0 || idx + offset >= this.sections.length) {
+            return;
+        }
+        const sections = [...this.sections];
+        [sections[idx], sections[idx + offset]] = [sections[idx + offset], sections[idx]];
+        this.sections = sections;
+        this.updateGroups();
+        this.saveSlides();
+        this.detectChanges();
+    }
+
+    public toggleSection(section: Section) {
+        if (this.collapsedSections.includes(section.id)) {
+            this.collapsedSections = this.collapsedSections.filter((id) => id != section.id);
+        } else {
+            this.collapsedSections = [...this.collapsedSections, section.id];
+        }
+        this.detectChanges();
+    }
+
+    private viewSection(group: { section: Section; slides: Slide[] }) {
+        if (!group.slides.length) {
+            return;
+        }
+        if (group.section) {
+            this.collapsedSections = this.collapsedSections.filter((id) => id != group.section.id);
+        }
+        this.selectSlide(null, this.slides.indexOf(group.slides[0]));
+    }
+
+    private viewSectionRelative(offset: 1 | -1) {
+        const groups = this.slideGroups.filter((g) => g.slides.length);
+        const currentSlide = this.slides[this.currentSlideIdx];
+        const idx = groups.findIndex((g) => g.slides.includes(currentSlide));
+        const group = idx == -1
+            ? groups[offset == 1 ? 0 : groups.length - 1]
+            : groups[idx + offset];
+        if (group) {
+            this.viewSection(group);
+        }
+    }
+
+    private get missingAudioTrackItems(): AudioTrackItem[] {
+        return this.audioTrackService.audioTrack.value.items
+            .filter((i) => this.relinkService.isAudioTrackItemMissing(i));
+    }
+
+    public relinkMissingMedia(showIfNoneMissing = false): void {
+        const isSlide = (item: Slide | AudioTrackItem): item is Slide => this.slides
+            .includes(item as Slide);
+        const isMissing = (item: Slide | AudioTrackItem) => (isSlide(item)
+            ? item.missing
+            : this.relinkService.isAudioTrackItemMissing(item));
+        let missing: (Slide | AudioTrackItem)[] = [
+            ...this.slides.filter((s) => s.missing),
+            ...this.missingAudioTrackItems,
+        ];
+        if (!missing.length) {
+            if (showIfNoneMissing) {
+                remote.dialog.showMessageBox({
+                    message: "The files of all slides and of the background music were found.",
+                    title: "Relink missing media",
+                    buttons: ["OK"],
+                });
+            }
+            return;
+        }
+        const relinked: Slide[] = [];
+        let audioTrackRelinked = false;
+        let found: number;
+        while (missing.length) {
+            const list = missing.slice(0, 15).map((s) => `- ${s.name} (${s.filePath})`);
+            if (missing.length > list.length) {
+                list.push(`... and ${missing.length - list.length} more`);
+            }
+            const choice = remote.dialog.showMessageBoxSync(remote.getCurrentWindow(), {
+                type: "warning",
+                title: "Missing media",
+                message: `${found !== undefined ? `${found} file${found !== 1 ? "s were" : " was"} found in the selected folder.\n\n` : ""}The files of the following slides and songs couldn't be found:\n\n${list.join("\n")}\n\nDo you want to search a folder for them?`,
+                buttons: ["Search folder...", "Ignore"],
+                defaultId: 0,
+                cancelId: 1,
+            });
+            if (choice !== 0) {
+                break;
+            }
+            const folder = remote.dialog.showOpenDialogSync({
+                title: "Search for missing files",
+                properties: ["openDirectory"],
+                defaultPath: this.settingsService.store.get("importSlideDefaultPath"),
+            });
+            if (!(folder && folder[0])) {
+                break;
+            }
+            const matches = this.relinkService.findMatches(missing, folder[0]);
+            for (const { item, filePath } of matches) {
+                if (isSlide(item)) {
+                    this.relinkService.relink(item, filePath);
+                    relinked.push(item);
+                } else {
+                    this.relinkService.relinkAudioTrackItem(item, filePath);
+                    audioTrackRelinked = true;
+                }
+            }
+            found = matches.length;
+            missing = missing.filter(isMissing);
+        }
+        this.slidesRelinked(relinked);
+        if (audioTrackRelinked) {
+            this.audioTrackService.save();
+        }
+    }
+
+    public locateSlideFile(): void {
+        const slide = this.slides[this.currentSlideIdx];
+        const files = remote.dialog.showOpenDialogSync({
+            title: `Locate "${slide.name}"`,
+            filters: supportedFilesFilters,
+            properties: ["openFile"],
+            defaultPath: this.settingsService.store.get("importSlideDefaultPath"),
+        });
+        if (!(files && files[0])) {
+            return;
+        }
+        this.relinkService.relink(slide, files[0]);
+        this.slidesRelinked([slide]);
+    }
+
+    private slidesRelinked(slides: Slide[]) {
+        if (!slides.length) {
+            return;
+        }
+        this.ensureThumbnails();
+        this.saveSlides();
+        remote.ipcMain.emit("add-slides", slides);
+        this.detectChanges();
     }
 
     private ensureThumbnails() {
-        for (const s of this.slides) {
+        for (const s of this.slides.filter(
+            (slide) => !slide.missing && !slide.thumbnail && !isEmbeddedText(slide)
+                && slide.type != "audio",
+        )) {
             this.thumbnailService.ensureThumbnail(s.filePath).then((t) => {
                 s.thumbnail = t;
                 this.cdr.detectChanges();
@@ -0,0 +1,120 @@
+import {
+    Component, ChangeDetectorRef, ElementRef, ViewChild,
+} from "@angular/core";
+import { remote } from "electron";
+import { KeymapService } from "../../_services/keymap.service";
+import { ShowService } from "../../_services/show.service";
+import { RemoteApiService } from "../../_services/remote-api.service";
+import { keymapCommands, KeymapCommand } from "../../_globals/keymapCommands";
+import { keyboardEventToAccelerator, normalizeAccelerator } from "../../_helpers/accelerators";
+import { Slide } from "../../_classes/slide";
+
+@Component({
+    selector: "keymap-editor",
+    templateUrl: "./keymap-editor.component.html",
+    styleUrls: ["./keymap-editor.component.scss"],
+})
+export class KeymapEditorComponent {
+    public categories: { name: string; commands: KeymapCommand[] }[];
+    /** Command or slide which waits for a pressed shortcut */
+    public recording: { commandId?: string; slideId?: string };
+    @ViewChild("recorder") private recorder: ElementRef<HTMLInputElement>;
+
+    constructor(
+        public keymapService: KeymapService,
+        private showService: ShowService,
+        private remoteApiService: RemoteApiService,
+        private cdr: ChangeDetectorRef,
+    ) {
+        const names = Array.from(new Set(keymapCommands.map((c) => c.category)));
+        this.categories = names.map((name) => ({
+            name,
+            commands: keymapCommands.filter((c) => c.category == name),
+        }));
+    }
+
+    public get slides(): Slide[] {
+        return this.showService.data.value?.slides || [];
+    }
+
+    // Every accelerator which triggers more than one command or slide, with their names
+    public get conflicts(): { accelerator: string; usages: string[] }[] {
+        const accelerators = [
+            ...keymapCommands.map((c) => this.keymapService.getShortcuts(c.id))
+                .reduce((all, shortcuts) => all.concat(shortcuts), []),
+            ...this.slides.filter((s) => s.hotkey).map((s) => s.hotkey),
+        ];
+        const seen = new Set<string>();
+        return accelerators
+            .filter((a) => {
+                const normalized = normalizeAccelerator(a);
+                if (seen.has(normalized)) {
+                    return false;
+                }
+                seen.add(normalized);
+                return true;
+            })
+            .map((accelerator) => ({
+                accelerator,
+                usages: this.keymapService.getUsages(accelerator),
+            }))
+            .filter((c) => c.usages.length > 1);
+    }
+
+    public record(target: { commandId?: string; slideId?: string }) {
+        this.recording = target;
+        this.cdr.detectChanges();
+        this.recorder.nativeElement.focus();
+    }
+
+    public cancel() {
+        this.recording = undefined;
+    }
+
+    public keyPressed(event: KeyboardEvent) {
+        event.preventDefault();
+        if (event.key == "Escape") {
+            this.cancel();
+            return;
+        }
+        const accelerator = keyboardEventToAccelerator(event);
+        if (!accelerator) {
+            return;
+        }
+        const { commandId, slideId } = this.recording;
+        this.recording = undefined;
+        if (slideId) {
+            this.setSlideHotkey(slideId, accelerator);
+            return;
+        }
+        const shortcuts = this.keymapService.getShortcuts(commandId);
+        if (!shortcuts.some((s) => normalizeAccelerator(s) == normalizeAccelerator(accelerator))) {
+            this.keymapService.setShortcuts(commandId, [...shortcuts, accelerator]);
+        }
+    }
+
+    public removeShortcut(commandId: string, shortcut: string) {
+        this.keymapService.setShortcuts(
+            commandId,
+            this.keymapService.getShortcuts(commandId).filter((s) => s != shortcut),
+        );
+    }
+
+    public setSlideHotkey(slideId: string, hotkey: string) {
+        this.remoteApiService.slideUpdated.next({ id: slideId, properties: { hotkey } });
+    }
+
+    public resetAll() {
+        const choice = remote.dialog.showMessageBoxSync(remote.getCurrentWindow(), {
+            type: "question",
+            title: "Reset shortcuts",
+            message: "Do you really want to reset all keyboard shortcuts to their defaults?",
+            buttons: ["Reset", "Cancel"],
+            defaultId: 1,
+            cancelId: 1,
+        });
+        if (choice === 0) {
+            this.keymapService.reset();
+        }
+    }
+}
@@ -0,0 +1,41 @@
+import { Component, ChangeDetectorRef, ChangeDetectionStrategy } from "@angular/core";
+import { Subscription } from "rxjs";
+import { MediaService } from "../../_services/media.service";
+import { MediaProgress } from "../../_classes/mediaProgress";
+import { formatDuration } from "../../_helpers/formatDuration";
+
+@Component({
+    selector: "media-controls",
+    templateUrl: "./media-controls.component.html",
+    styleUrls: ["./media-controls.component.scss"],
+    changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MediaControlsComponent {
+    public progress: MediaProgress;
+    // The scrub bar doesn't follow the video while it is dragged
+    public seekTime: number;
+    public formatDuration = formatDuration;
+    private subscription: Subscription;
+
+    constructor(public mediaService: MediaService, private cdr: ChangeDetectorRef) {}
+
+    public ngOnInit(): void {
+        this.subscription = this.mediaService.progress.subscribe((progress) => {
+            this.progress = progress;
+            this.cdr.detectChanges();
+        });
+    }
+
+    public ngOnDestroy(): void {
+        this.subscription.unsubscribe();
+    }
+
+    public get time(): number {
+        return this.seekTime === undefined ? this.progress.time : this.seekTime;
+    }
+
+    public seek() {
+        this.mediaService.seek(this.seekTime);
+        this.seekTime = undefined;
+    }
+}
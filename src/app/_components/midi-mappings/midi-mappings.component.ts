@@ -0,0 +1,63 @@
+import { Component, ChangeDetectorRef } from "@angular/core";
+import { MidiService, midiActionNames } from "../../_services/midi.service";
+import { MidiAction, MidiMapping } from "../../_classes/midiMapping";
+
+@Component({
+    selector: "midi-mappings",
+    templateUrl: "./midi-mappings.component.html",
+    styleUrls: ["./midi-mappings.component.scss"],
+})
+export class MidiMappingsComponent {
+    public actionNames = midiActionNames;
+    public actions = Object.keys(midiActionNames) as MidiAction[];
+    public mappings: MidiMapping[];
+    /** Index of the mapping which waits for a MIDI message, -1 for a new mapping */
+    public learningIdx: number;
+
+    constructor(public midiService: MidiService, private cdr: ChangeDetectorRef) {
+        this.mappings = this.midiService.mappings.value.map((m) => ({ ...m }));
+    }
+
+    public ngOnDestroy(): void {
+        this.midiService.cancelLearning();
+    }
+
+    public async learn(idx = -1) {
+        this.learningIdx = idx;
+        const trigger = await this.midiService.learn();
+        if (this.learningIdx != idx) {
+            // learning for another mapping was started in the meantime
+            return;
+        }
+        this.learningIdx = undefined;
+        if (trigger) {
+            if (idx == -1) {
+                this.mappings.push({ trigger, action: "next" });
+            } else {
+                this.mappings[idx].trigger = trigger;
+            }
+            this.changed();
+        }
+        this.cdr.detectChanges();
+    }
+
+    public cancel() {
+        this.midiService.cancelLearning();
+    }
+
+    public remove(idx: number) {
+        this.mappings.splice(idx, 1);
+        this.changed();
+    }
+
+    public changed() {
+        for (const mapping of this.mappings) {
+            if (mapping.action == "slide") {
+                mapping.slideNumber = Math.max(1, Math.round(mapping.slideNumber || 1));
+            } else {
+                delete mapping.slideNumber;
+            }
+        }
+        this.midiService.setMappings(this.mappings.map((m) => ({ ...m })));
+    }
+}
@@ -0,0 +1,52 @@
+import {
+    Component, Input, Output, EventEmitter, ViewChild, ElementRef, OnChanges, OnInit,
+} from "@angular/core";
+import { sanitizeNotes } from "../../_helpers/sanitizeNotes";
+
+@Component({
+    selector: "notes-editor",
+    templateUrl: "./notes-editor.component.html",
+    styleUrls: ["./notes-editor.component.scss"],
+})
+export class NotesEditorComponent implements OnChanges, OnInit {
+    @Input() public notes: string;
+    @Output() public notesChange = new EventEmitter<string>();
+    @ViewChild("editor", { static: true }) private editor: ElementRef<HTMLDivElement>;
+
+    public ngOnInit(): void {
+        this.render();
+    }
+
+    public ngOnChanges(): void {
+        this.render();
+    }
+
+    private render() {
+        // Notes from show files can contain anything, e.g. event handlers
+        const html = this.notes ? sanitizeNotes(this.notes) : "";
+        // Setting the same content again would move the cursor
+        if (this.editor && this.editor.nativeElement.innerHTML != html) {
+            this.editor.nativeElement.innerHTML = html;
+        }
+    }
+
+    public format(command: "bold" | "italic" | "underline" | "insertUnorderedList" | "removeFormat") {
+        document.execCommand(command);
+        this.editor.nativeElement.focus();
+    }
+
+    public highlight() {
+        document.execCommand("hiliteColor", false, "#ffe066");
+        this.editor.nativeElement.focus();
+    }
+
+    public changed() {
+        const notes = this.editor.nativeElement.textContent.trim()
+            ? sanitizeNotes(this.editor.nativeElement.innerHTML)
+            : undefined;
+        if (notes != this.notes) {
+            this.notes = notes;
+            this.notesChange.emit(notes);
+        }
+    }
+}
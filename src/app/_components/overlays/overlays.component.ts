@@ -0,0 +1,72 @@
+import { Component } from "@angular/core";
+import { remote } from "electron";
+import { Overlay, OverlayType } from "../../_classes/overlay";
+import { OverlayService } from "../../_services/overlay.service";
+import { SettingsService } from "../../_services/settings.service";
+import { supportedFiles } from "../../_globals/supportedFilesFilters";
+
+@Component({
+    selector: "overlays",
+    templateUrl: "./overlays.component.html",
+    styleUrls: ["./overlays.component.scss"],
+})
+export class OverlaysComponent {
+    public selected: Overlay;
+
+    constructor(
+        public overlayService: OverlayService,
+        private settingsService: SettingsService,
+    ) { }
+
+    public ngOnInit(): void {
+        this.overlayService.overlays.subscribe((overlays) => {
+            if (!overlays.includes(this.selected)) {
+                this.selected = undefined;
+            }
+        });
+    }
+
+    public add(type: OverlayType) {
+        if (type == "text") {
+            this.selected = this.overlayService.create(type);
+            return;
+        }
+        const filePath = this.browse(type);
+        if (filePath) {
+            this.selected = this.overlayService.create(type, filePath);
+        }
+    }
+
+    public changeFile() {
+        const filePath = this.browse(this.selected.type);
+        if (filePath) {
+            this.selected.filePath = filePath;
+            this.changed();
+        }
+    }
+
+    private browse(type: OverlayType): string {
+        const files = remote.dialog.showOpenDialogSync({
+            title: type == "image" ? "Choose an image" : "Choose a HTML file",
+            properties: ["openFile"],
+            filters: supportedFiles.filter((f) => f.slideType == type)
+                .map((f) => ({ extensions: f.extensions, name: f.prettyName })),
+            defaultPath: this.settingsService.store.get("importSlideDefaultPath"),
+        });
+        return files && files[0];
+    }
+
+    public toggle(event: Event, overlay: Overlay) {
+        event.stopPropagation();
+        this.overlayService.toggle(overlay);
+    }
+
+    public remove(event: Event, overlay: Overlay) {
+        event.stopPropagation();
+        this.overlayService.remove(overlay);
+    }
+
+    public changed() {
+        this.overlayService.save();
+    }
+}
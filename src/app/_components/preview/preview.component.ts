@@ -1,4 +1,6 @@
-import { Component, ViewChild, ElementRef } from "@angular/core";
+import {
+    Component, ViewChild, ElementRef, Input,
+} from "@angular/core";
 import { remote } from "electron";
 
 @Component({
@@ -8,24 +10,36 @@ import { remote } from "electron";
 })
 export class PreviewComponent {
   @ViewChild("previewContainer") private container: ElementRef<HTMLDivElement>;
+  /** "program" shows what is on the projector, "studio" the slide which is taken next */
+  @Input() public display: "program" | "studio" = "program";
+  private resizeListener: () => void;
 
   public ngAfterViewInit(): void {
-      remote.getCurrentWindow().on("resize", this.resizePreview(this.container));
-      document.addEventListener("scroll", this.resizePreview(this.container));
+      this.resizeListener = this.resizePreview(this.container);
+      remote.getCurrentWindow().on("resize", this.resizeListener);
+      document.addEventListener("scroll", this.resizeListener);
       const {
           width, height, x, y,
       } = this.container.nativeElement.getBoundingClientRect();
-      remote.ipcMain.emit("preview-init", {
+      remote.ipcMain.emit(this.display == "studio" ? "studio-preview-init" : "preview-init", {
           width, height, x, y,
       });
   }
 
+  public ngOnDestroy(): void {
+      remote.getCurrentWindow().removeListener("resize", this.resizeListener);
+      document.removeEventListener("scroll", this.resizeListener);
+      if (this.display == "studio") {
+          remote.ipcMain.emit("studio-preview-end");
+      }
+  }
+
   private resizePreview(container) {
       return () => {
           const {
               width, height, x, y,
           } = container.nativeElement.getBoundingClientRect();
-          remote.ipcMain.emit("preview-bounds", {
+          remote.ipcMain.emit(this.display == "studio" ? "studio-preview-bounds" : "preview-bounds", {
               width, height, x, y,
           });
       };
@@ -1,8 +1,13 @@
 import { Component } from "@angular/core";
 import { remote } from "electron";
 import { SettingsService } from "../../_services/settings.service";
+import { ProjectorService } from "../../_services/projector.service";
+import { PresenterService } from "../../_services/presenter.service";
+import { DisplayService } from "../../_services/display.service";
+import { MixerService } from "../../_services/mixer.service";
 import { reduceFraction } from "../../_helpers/reduceFraction";
 import { supportedFiles } from "../../_globals/supportedFilesFilters";
+import { TransitionOptions } from "../../_classes/transitionOptions";
 
 @Component({
     selector: "settings",
@@ -10,7 +15,6 @@ import { supportedFiles } from "../../_globals/supportedFilesFilters";
     styleUrls: ["./settings.component.scss"],
 })
 export class SettingsComponent {
-    public projector = false;
     public width: number;
     public height: number;
     public aspectRatioWidth: number;
@@ -19,8 +23,20 @@ export class SettingsComponent {
     public backgroundColor: string;
     public linked = true;
     public customLogoPath: string;
+    public defaultTransition: TransitionOptions;
+    public oscEnabled: boolean;
+    public oscPort: number;
+    // Comma separated in the inputs
+    public oscAllowedSenders: string;
+    public oscFeedbackTargets: string;
 
-    constructor(private settingsService: SettingsService) {
+    constructor(
+        private settingsService: SettingsService,
+        public projectorService: ProjectorService,
+        public presenterService: PresenterService,
+        public displayService: DisplayService,
+        public mixerService: MixerService,
+    ) {
         this.width = this.settingsService.store.get("width");
         this.height = this.settingsService.store.get("height");
         this.aspectRatioWidth = this.settingsService.store.get("aspectRatioWidth");
@@ -28,6 +44,12 @@ export class SettingsComponent {
         this.paddingSize = this.settingsService.store.get("paddingSize");
         this.backgroundColor = this.settingsService.store.get("backgroundColor");
         this.customLogoPath = this.settingsService.store.get("customLogoPath");
+        this.defaultTransition = this.settingsService.store.get("defaultTransition");
+        this.oscEnabled = this.settingsService.store.get("oscEnabled");
+        this.oscPort = this.settingsService.store.get("oscPort");
+        this.oscAllowedSenders = this.settingsService.store.get("oscAllowedSenders").join(", ");
+        this.oscFeedbackTargets = this.settingsService.store.get("oscFeedbackTargets").join(", ");
+        this.mixerService.requestMonitoringDevices();
     }
 
     private updateAspectRatio() {
@@ -65,17 +87,28 @@ export class SettingsComponent {
         remote.ipcMain.emit("settings-changed");
     }
 
+    public transitionChanged() {
+        this.settingsService.store.set("defaultTransition", this.defaultTransition);
+        remote.ipcMain.emit("settings-changed");
+    }
+
+    public oscChanged() {
+        const split = (list: string) => list.split(",").map((s) => s.trim()).filter((s) => s);
+        this.settingsService.store.set("oscEnabled", this.oscEnabled);
+        this.settingsService.store.set("oscPort", this.oscPort);
+        this.settingsService.store.set("oscAllowedSenders", split(this.oscAllowedSenders));
+        this.settingsService.store.set("oscFeedbackTargets", split(this.oscFeedbackTargets));
+        remote.ipcMain.emit("osc-settings-changed");
+    }
+
+    // Selected displays stay remembered while they are unplugged
+    public get disconnectedProjectorDisplayIds(): number[] {
+        return this.projectorService.displayIds
+            .filter((id) => !this.displayService.getDisplay(id));
+    }
+
     public toggleProjector() {
-        try {
-            if (this.projector) {
-                remote.ipcMain.emit("projector-end");
-            } else {
-                remote.ipcMain.emit("projector-init");
-            }
-        } catch {
-            //
-        }
-        this.projector = !this.projector;
+        this.projectorService.toggle();
     }
 
     public browse() {
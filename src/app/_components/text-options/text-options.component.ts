@@ -0,0 +1,18 @@
+import {
+    Component, Input, Output, EventEmitter,
+} from "@angular/core";
+import { TextOptions } from "../../_classes/textOptions";
+
+@Component({
+    selector: "text-options",
+    templateUrl: "./text-options.component.html",
+    styleUrls: ["./text-options.component.scss"],
+})
+export class TextOptionsComponent {
+    @Input() public options: TextOptions;
+    @Output() public optionsChange = new EventEmitter<TextOptions>();
+
+    public changed() {
+        this.optionsChange.emit(this.options);
+    }
+}
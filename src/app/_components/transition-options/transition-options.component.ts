@@ -0,0 +1,40 @@
+import {
+    Component, Input, Output, EventEmitter,
+} from "@angular/core";
+import { remote } from "electron";
+import { TransitionOptions } from "../../_classes/transitionOptions";
+import { TransitionTypes, transitionTypeNames, lumaWipeImages } from "../../_globals/transitionTypes";
+import { supportedFiles } from "../../_globals/supportedFilesFilters";
+
+@Component({
+    selector: "transition-options",
+    templateUrl: "./transition-options.component.html",
+    styleUrls: ["./transition-options.component.scss"],
+})
+export class TransitionOptionsComponent {
+    @Input() public options: TransitionOptions;
+    @Input() public label = "Transition";
+    @Output() public optionsChange = new EventEmitter<TransitionOptions>();
+    public transitionTypes = Object.values(TransitionTypes)
+        .map((type) => ({ type, name: transitionTypeNames[type] }));
+    public lumaWipeImages = lumaWipeImages;
+    public types = TransitionTypes;
+
+    public changed() {
+        this.optionsChange.emit(this.options);
+    }
+
+    public browseStinger() {
+        const files = remote.dialog.showOpenDialogSync({
+            title: "Choose a stinger video",
+            properties: ["openFile"],
+            filters: supportedFiles.filter((f) => f.slideType == "video")
+                .map((f) => ({ extensions: f.extensions, name: f.prettyName })),
+            defaultPath: this.options.stingerFile,
+        });
+        if (files && files[0]) {
+            [this.options.stingerFile] = files;
+            this.changed();
+        }
+    }
+}
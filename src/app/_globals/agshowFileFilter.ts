@@ -2,3 +2,8 @@ export const filters = [{
     name: "AGView Show File",
     extensions: ["agvshow"],
 }];
+
+export const bundleFilters = [{
+    name: "AGView Show Bundle",
+    extensions: ["agvbundle"],
+}];
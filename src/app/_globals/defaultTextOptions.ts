@@ -0,0 +1,14 @@
+import { TextOptions } from "../_classes/textOptions";
+
+export const defaultTextOptions: TextOptions = {
+    fontFace: "Arial",
+    fontSize: 96,
+    color: "#ffffff",
+    backgroundColor: "#000000",
+    backgroundOpacity: 0,
+    outline: false,
+    outlineColor: "#000000",
+    outlineSize: 2,
+    wrap: true,
+    align: "center",
+};
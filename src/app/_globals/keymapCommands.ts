@@ -0,0 +1,107 @@
+export type KeymapCommand = {
+    id: string;
+    // The menu the command is in
+    category: string;
+    name: string;
+    // Electron accelerators, the first one is shown in the menu
+    defaultShortcuts: string[];
+};
+
+const sectionCommands: KeymapCommand[] = [1, 2, 3, 4, 5, 6, 7, 8, 9].map((n) => ({
+    id: `section${n}`,
+    category: "View",
+    name: `Go to section ${n}`,
+    defaultShortcuts: [`Ctrl+${n}`],
+}));
+
+export const keymapCommands: KeymapCommand[] = [
+    {
+        id: "newFile", category: "File", name: "New file", defaultShortcuts: ["Ctrl+N"],
+    },
+    {
+        id: "openFile", category: "File", name: "Open file", defaultShortcuts: ["Ctrl+O"],
+    },
+    {
+        id: "save", category: "File", name: "Save", defaultShortcuts: ["Ctrl+S"],
+    },
+    {
+        id: "saveAs", category: "File", name: "Save as", defaultShortcuts: ["Ctrl+Shift+S"],
+    },
+    {
+        id: "packShow", category: "File", name: "Pack show", defaultShortcuts: [],
+    },
+    {
+        id: "openBundle", category: "File", name: "Open bundle", defaultShortcuts: [],
+    },
+    {
+        id: "exportCueSheet", category: "File", name: "Export cue sheet", defaultShortcuts: [],
+    },
+    {
+        id: "quit", category: "File", name: "Quit", defaultShortcuts: ["Ctrl+Q"],
+    },
+    {
+        id: "undo", category: "Edit", name: "Undo", defaultShortcuts: ["Ctrl+Z"],
+    },
+    {
+        id: "redo", category: "Edit", name: "Redo", defaultShortcuts: ["Ctrl+Y"],
+    },
+    {
+        id: "importSlides", category: "Slide", name: "Import slides", defaultShortcuts: ["Ctrl+I"],
+    },
+    {
+        id: "newTextSlide", category: "Slide", name: "New text slide", defaultShortcuts: ["Ctrl+T"],
+    },
+    {
+        id: "relinkMissingMedia", category: "Slide", name: "Relink missing media", defaultShortcuts: [],
+    },
+    {
+        id: "addSection", category: "Slide", name: "Add section", defaultShortcuts: [],
+    },
+    {
+        id: "renameSlide", category: "Slide", name: "Rename slide", defaultShortcuts: ["F2"],
+    },
+    {
+        id: "removeSlide", category: "Slide", name: "Remove slide", defaultShortcuts: ["Del"],
+    },
+    {
+        id: "slideProperties", category: "Slide", name: "Slide properties", defaultShortcuts: ["Ctrl+W"],
+    },
+    {
+        id: "studioMode", category: "View", name: "Studio mode", defaultShortcuts: [],
+    },
+    {
+        id: "presenterMonitor", category: "View", name: "Presenter monitor", defaultShortcuts: [],
+    },
+    {
+        id: "take", category: "View", name: "Take", defaultShortcuts: ["Space", "Enter"],
+    },
+    {
+        id: "nextSlide", category: "View", name: "Next slide", defaultShortcuts: ["Right"],
+    },
+    {
+        id: "previousSlide", category: "View", name: "Previous slide", defaultShortcuts: ["Left"],
+    },
+    {
+        id: "nextSection", category: "View", name: "Next section", defaultShortcuts: ["PageDown"],
+    },
+    {
+        id: "previousSection", category: "View", name: "Previous section", defaultShortcuts: ["PageUp"],
+    },
+    ...sectionCommands,
+    {
+        id: "firstSlide", category: "View", name: "First slide", defaultShortcuts: ["F"],
+    },
+    {
+        id: "lastSlide", category: "View", name: "Last slide", defaultShortcuts: ["L"],
+    },
+    {
+        id: "blackout", category: "View", name: "Blackout", defaultShortcuts: ["F1"],
+    },
+    // F2 renames the slide
+    {
+        id: "customLogo", category: "View", name: "Custom logo", defaultShortcuts: ["F3"],
+    },
+    {
+        id: "logo", category: "View", name: "AGView logo", defaultShortcuts: ["F4"],
+    },
+];
@@ -0,0 +1,19 @@
+import { MobileRole } from "../_classes/connectedMobile";
+
+export const mobileRoles: { role: MobileRole; name: string; description: string }[] = [
+    {
+        role: "viewer",
+        name: "Viewer",
+        description: "Sees the slides, but can't change anything",
+    },
+    {
+        role: "presenter",
+        name: "Presenter",
+        description: "Can only move between the slides of the current section",
+    },
+    {
+        role: "operator",
+        name: "Operator",
+        description: "Has full control, including the default scenes and the show",
+    },
+];
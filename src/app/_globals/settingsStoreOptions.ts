@@ -1,5 +1,6 @@
 import { remote, app } from "electron";
 import * as path from "path";
+import { TransitionTypes } from "./transitionTypes";
 
 export const settingsStoreOptions = {
     configName: "user-preferences",
@@ -14,5 +15,29 @@ export const settingsStoreOptions = {
         paddingSize: 0,
         backgroundColor: "#000000",
         customLogoPath: path.join(__dirname, "../../assets/icons/favicon.png"),
+        studioMode: false,
+        // Electron display IDs, the projector is shown fullscreen on all of them
+        projectorDisplayIds: [],
+        oscEnabled: false,
+        oscPort: 53100,
+        // IP addresses, OSC messages from everywhere are accepted when empty
+        oscAllowedSenders: [],
+        // "host:port", AGView sends the current slide and state changes there
+        oscFeedbackTargets: [],
+        midiMappings: [],
+        // Shortcuts changed in the keymap editor by command, see keymapCommands
+        keymap: {},
+        // Between 0 and 1, applied to the slides and the background music
+        masterVolume: 1,
+        // OBS audio monitoring device, the default device when empty
+        monitoringDeviceId: "",
+        defaultTransition: {
+            type: TransitionTypes.Fade,
+            duration: 300,
+            direction: "left",
+            color: "#000000",
+            lumaImage: "linear-h.png",
+            stingerTransitionPoint: 0,
+        },
     },
 };
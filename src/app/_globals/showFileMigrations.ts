@@ -0,0 +1,41 @@
+import * as path from "path";
+import { v4 as uuid } from "uuid";
+import { Slide } from "../_classes/slide";
+import { supportedFiles } from "./supportedFilesFilters";
+
+const audioExtensions = supportedFiles.find((f) => f.slideType == "audio").extensions;
+
+/**
+ * Each migration upgrades a show file from the version it is keyed with
+ * to the next one and has to set `formatVersion` accordingly.
+ */
+export const showFileMigrations: { [fromVersion: number]: (data: any) => any } = {
+    // Files written before the format was versioned only contained the slides
+    0: (data) => ({
+        formatVersion: 1,
+        slides: (Array.isArray(data.slides) ? data.slides : []).map((s) => ({
+            ...s,
+            id: s.id || uuid(),
+            name: s.name || (typeof s.filePath === "string" ? path.basename(s.filePath).split(".")[0] : undefined),
+            alignment: { ...new Slide().alignment, ...s.alignment },
+        })),
+        settings: {},
+    }),
+    // Sections were added in version 2
+    1: (data) => ({
+        ...data,
+        formatVersion: 2,
+        sections: [],
+    }),
+    // Audio files were video slides before version 3
+    2: (data) => ({
+        ...data,
+        formatVersion: 3,
+        slides: data.slides.map((s) => ({
+            ...s,
+            type: s.type == "video" && audioExtensions.includes(path.extname(s.filePath || "").slice(1).toLowerCase())
+                ? "audio"
+                : s.type,
+        })),
+    }),
+};
@@ -0,0 +1,150 @@
+import { SchemaNode } from "../_classes/schemaNode";
+import { supportedFiles } from "./supportedFilesFilters";
+import { TransitionTypes } from "./transitionTypes";
+
+export const SHOW_FORMAT_VERSION = 3;
+
+const scaleFactorSchema: SchemaNode = {
+    type: "oneOf",
+    options: [
+        { type: "string", enum: ["auto"] },
+        { type: "number", min: 0 },
+    ],
+};
+
+export const alignmentSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        alignment: { type: "string", enum: ["left", "right", "center"] },
+        padding: { type: "number", min: 0 },
+        scale: {
+            type: "oneOf",
+            options: [
+                { type: "string", enum: ["fit", "cover", "stretch"] },
+                { type: "object", properties: { x: scaleFactorSchema, y: scaleFactorSchema } },
+            ],
+        },
+    },
+};
+
+export const cueSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        holdDuration: { type: "number", min: 0 },
+        loop: { type: "boolean" },
+        followAction: { type: "string", enum: ["stop", "next", "slide", "black", "logo", "customLogo"] },
+        followSlideId: { type: "string", optional: true },
+    },
+};
+
+export const transitionSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        type: { type: "string", enum: Object.values(TransitionTypes) },
+        duration: { type: "number", min: 0 },
+        direction: { type: "string", enum: ["left", "right", "up", "down"], optional: true },
+        color: { type: "string", optional: true },
+        lumaImage: { type: "string", optional: true },
+        stingerFile: { type: "string", optional: true },
+        stingerTransitionPoint: { type: "number", min: 0, optional: true },
+    },
+};
+
+export const textSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        content: { type: "string", optional: true },
+        fontFace: { type: "string" },
+        fontSize: { type: "number", min: 1 },
+        color: { type: "string" },
+        backgroundColor: { type: "string" },
+        backgroundOpacity: { type: "number", min: 0, max: 100 },
+        outline: { type: "boolean" },
+        outlineColor: { type: "string" },
+        outlineSize: { type: "number", min: 0 },
+        wrap: { type: "boolean" },
+        align: { type: "string", enum: ["left", "center", "right"] },
+    },
+};
+
+export const slideSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        type: { type: "string", enum: supportedFiles.map((f) => f.slideType) },
+        filePath: { type: "string" },
+        name: { type: "string" },
+        id: { type: "string" },
+        alignment: alignmentSchema,
+        fileSize: { type: "number", min: 0, optional: true },
+        sectionId: { type: "string", optional: true },
+        cue: { ...cueSchema, optional: true },
+        text: { ...textSchema, optional: true },
+        transition: { ...transitionSchema, optional: true },
+        notes: { type: "string", optional: true },
+        hotkey: { type: "string", optional: true },
+        volume: {
+            type: "number", min: 0, max: 1, optional: true,
+        },
+        muted: { type: "boolean", optional: true },
+    },
+};
+
+export const sectionSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        id: { type: "string" },
+        name: { type: "string" },
+    },
+};
+
+export const overlaySchema: SchemaNode = {
+    type: "object",
+    properties: {
+        id: { type: "string" },
+        name: { type: "string" },
+        type: { type: "string", enum: ["text", "image", "browser"] },
+        filePath: { type: "string", optional: true },
+        text: { ...textSchema, optional: true },
+        position: {
+            type: "object",
+            properties: { x: { type: "number" }, y: { type: "number" } },
+        },
+        fadeIn: { type: "number", min: 0 },
+        fadeOut: { type: "number", min: 0 },
+    },
+};
+
+export const audioTrackSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        items: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    id: { type: "string" },
+                    name: { type: "string" },
+                    filePath: { type: "string" },
+                },
+            },
+        },
+        loop: { type: "boolean" },
+        volume: { type: "number", min: 0, max: 1 },
+        fadeIn: { type: "number", min: 0 },
+        fadeOut: { type: "number", min: 0 },
+        ducking: { type: "boolean" },
+        duckingVolume: { type: "number", min: 0, max: 1 },
+    },
+};
+
+export const showFileSchema: SchemaNode = {
+    type: "object",
+    properties: {
+        formatVersion: { type: "number", min: SHOW_FORMAT_VERSION, max: SHOW_FORMAT_VERSION },
+        slides: { type: "array", items: slideSchema },
+        sections: { type: "array", items: sectionSchema },
+        overlays: { type: "array", items: overlaySchema, optional: true },
+        audioTrack: { ...audioTrackSchema, optional: true },
+        settings: { type: "object", properties: {} },
+    },
+};
@@ -11,11 +11,17 @@ export const supportedFiles: {
         slideType: "image",
     },
     {
-        extensions: ["mp4", "ts", "mov", "flv", "mkv", "avi", "mp3", "ogg", "aac", "wav", "gif", "webm"],
-        prettyName: "Video and Audio files",
+        extensions: ["mp4", "ts", "mov", "flv", "mkv", "avi", "gif", "webm"],
+        prettyName: "Video files",
         obsName: "ffmpeg_source",
         slideType: "video",
     },
+    {
+        extensions: ["mp3", "ogg", "aac", "wav"],
+        prettyName: "Audio files",
+        obsName: "ffmpeg_source",
+        slideType: "audio",
+    },
     {
         extensions: ["txt"],
         prettyName: "Text files",
@@ -30,7 +36,7 @@ export const supportedFiles: {
     },
 ];
 
-export type SlideType = "browser" | "video" | "image" | "text"
+export type SlideType = "browser" | "video" | "audio" | "image" | "text"
 
 export const supportedFilesFilters = supportedFiles.map(
     (f) => ({ name: f.prettyName, extensions: f.extensions }),
@@ -7,3 +7,50 @@ export enum TransitionTypes {
   LumaWipe = "wipe_transition",
   Stinger = "obs_stinger_transition",
 }
+
+export const transitionTypeNames: { [type in TransitionTypes]: string } = {
+    [TransitionTypes.Cut]: "Cut",
+    [TransitionTypes.Fade]: "Fade",
+    [TransitionTypes.Swipe]: "Swipe",
+    [TransitionTypes.Slide]: "Slide",
+    [TransitionTypes.FadeToColor]: "Fade to color",
+    [TransitionTypes.LumaWipe]: "Luma wipe",
+    [TransitionTypes.Stinger]: "Stinger",
+};
+
+export const lumaWipeImages = [
+    "linear-h.png",
+    "linear-v.png",
+    "linear-topleft.png",
+    "linear-topright.png",
+    "barndoor-h.png",
+    "barndoor-v.png",
+    "barndoor-botleft.png",
+    "barndoor-topleft.png",
+    "blinds-h.png",
+    "box-botleft.png",
+    "box-botright.png",
+    "box-topleft.png",
+    "box-topright.png",
+    "burst.png",
+    "checkerboard-small.png",
+    "circles.png",
+    "clock.png",
+    "cloud.png",
+    "curtain.png",
+    "fan.png",
+    "fractal.png",
+    "iris.png",
+    "parallel-zigzag-h.png",
+    "parallel-zigzag-v.png",
+    "sinus9-h.png",
+    "spiral.png",
+    "square.png",
+    "squares.png",
+    "stripes.png",
+    "strips-h.png",
+    "strips-v.png",
+    "watercolor.png",
+    "zigzag-h.png",
+    "zigzag-v.png",
+];
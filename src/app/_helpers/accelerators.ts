@@ -0,0 +1,39 @@
+const MODIFIERS = ["Ctrl", "Alt", "Shift", "Meta"];
+
+// KeyboardEvent.key values which are named differently in accelerators
+const KEY_NAMES = {
+    " ": "Space",
+    ArrowLeft: "Left",
+    ArrowRight: "Right",
+    ArrowUp: "Up",
+    ArrowDown: "Down",
+    Delete: "Del",
+    Escape: "Esc",
+    "+": "Plus",
+};
+
+/**
+ * Returns the accelerator for a pressed key, e.g. "Ctrl+Shift+S".
+ * Undefined while only modifiers are pressed.
+ */
+export function keyboardEventToAccelerator(event: KeyboardEvent): string {
+    if (["Control", "Alt", "Shift", "Meta", "AltGraph"].includes(event.key)) {
+        return undefined;
+    }
+    const modifiers = [event.ctrlKey, event.altKey, event.shiftKey, event.metaKey]
+        .map((pressed, idx) => (pressed ? MODIFIERS[idx] : undefined))
+        .filter((m) => m);
+    // letters are independent of shift and the keyboard layout
+    const key = KEY_NAMES[event.key]
+        || (/^Key[A-Z]$/.test(event.code) ? event.code.slice(3) : undefined)
+        || (/^Digit[0-9]$/.test(event.code) ? event.code.slice(5) : undefined)
+        || (event.key.length == 1 ? event.key.toUpperCase() : event.key);
+    return [...modifiers, key].join("+");
+}
+
+// Accelerators which trigger with the same keys are equal after normalizing
+export function normalizeAccelerator(accelerator: string): string {
+    const parts = accelerator.split("+").map((p) => p.trim().toLowerCase());
+    const key = parts.pop();
+    return [...parts.sort(), key].join("+");
+}
@@ -0,0 +1,8 @@
+// Formats milliseconds as m:ss or h:mm:ss
+export function formatDuration(ms: number): string {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor(seconds / 60) % 60;
+    const time = `${hours ? minutes.toString().padStart(2, "0") : minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+    return hours ? `${hours}:${time}` : time;
+}
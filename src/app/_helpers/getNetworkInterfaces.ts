@@ -0,0 +1,16 @@
+import * as os from "os";
+
+// The external IPv4 addresses mobiles can connect to
+export function getNetworkInterfaces(): { name: string; ip: string }[] {
+    const ifaces = os.networkInterfaces();
+    const interfaces: { name: string; ip: string }[] = [];
+    for (const ifname of Object.keys(ifaces)) {
+        ifaces[ifname].forEach((iface) => {
+            if (iface.family !== "IPv4" || iface.internal !== false) {
+                return;
+            }
+            interfaces.push({ name: ifname, ip: iface.address });
+        });
+    }
+    return interfaces;
+}
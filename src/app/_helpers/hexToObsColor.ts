@@ -0,0 +1,7 @@
+import { hexToRgb } from "./hexToRgb";
+
+// OBS stores colors as integers in ABGR order
+export function hexToObsColor(hex: string): number {
+    const [r, g, b] = hexToRgb(hex) || [0, 0, 0];
+    return ((0xFF << 24) | (b << 16) | (g << 8) | r) >>> 0;
+}
@@ -0,0 +1,6 @@
+import { Slide } from "../_classes/slide";
+
+// Text slides created in AGView store their text in the show instead of a file
+export function isEmbeddedText(slide: Slide): boolean {
+    return slide.type == "text" && !slide.filePath && !!slide.text;
+}
@@ -0,0 +1,20 @@
+import { SHOW_FORMAT_VERSION } from "../_globals/showFileSchema";
+import { showFileMigrations } from "../_globals/showFileMigrations";
+
+export function migrateShowFile(data: any): any {
+    if (!data || typeof data !== "object" || Array.isArray(data)) {
+        throw new Error("The file doesn't contain a show.");
+    }
+    let version = typeof data.formatVersion === "number" ? data.formatVersion : 0;
+    if (version > SHOW_FORMAT_VERSION) {
+        throw new Error(`The show was saved with a newer version of AGView (format version ${version}). Please update AGView to open it.`);
+    }
+    while (version < SHOW_FORMAT_VERSION) {
+        if (!showFileMigrations[version]) {
+            throw new Error(`Show files with format version ${version} are not supported.`);
+        }
+        data = showFileMigrations[version](data);
+        version = data.formatVersion;
+    }
+    return data;
+}
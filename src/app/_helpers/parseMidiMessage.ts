@@ -0,0 +1,33 @@
+import { MidiEvent } from "../_classes/midiMapping";
+
+const NOTE_OFF = 0x80;
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xB0;
+const PROGRAM_CHANGE = 0xC0;
+
+// Returns undefined for messages which can't be mapped, like clock or sysex
+export function parseMidiMessage(data: ArrayLike<number>): MidiEvent {
+    // the upper half of the status byte is the type, the lower half the channel
+    const status = data[0] - (data[0] % 16);
+    const channel = (data[0] % 16) + 1;
+    switch (status) {
+    case NOTE_OFF:
+        return {
+            type: "note", channel, number: data[1], value: 0,
+        };
+    case NOTE_ON:
+        return {
+            type: "note", channel, number: data[1], value: data[2],
+        };
+    case CONTROL_CHANGE:
+        return {
+            type: "controlChange", channel, number: data[1], value: data[2],
+        };
+    case PROGRAM_CHANGE:
+        return {
+            type: "programChange", channel, number: data[1], value: 0,
+        };
+    default:
+        return undefined;
+    }
+}
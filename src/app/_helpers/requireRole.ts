@@ -0,0 +1,15 @@
+import * as express from "express";
+import { MobileRole } from "../_classes/connectedMobile";
+import { mobileRoles } from "../_globals/mobileRoles";
+
+// Express middleware, req.mobile is set by the authentication of the MobileService
+export function requireRole(...roles: MobileRole[]) {
+    return (req: any, res: express.Response, next: express.NextFunction): void => {
+        if (!roles.includes(req.mobile?.role)) {
+            const names = mobileRoles.filter((r) => roles.includes(r.role)).map((r) => r.name);
+            res.status(403).send({ error: `Only a ${names.join(" or ")} can do this. The role can be changed in AGView.`, forbidden: true });
+            return;
+        }
+        next();
+    };
+}
@@ -0,0 +1,28 @@
+// The formatting the notes editor creates and the mobile app can show
+const ALLOWED_TAGS = ["B", "STRONG", "I", "EM", "U", "MARK", "BR", "P", "DIV", "UL", "OL", "LI"];
+
+// Speaker notes are simple HTML, everything else is reduced to its text
+export function sanitizeNotes(html: string): string {
+    const doc = new DOMParser().parseFromString(html, "text/html");
+    const clean = (node: Node): string => Array.from(node.childNodes).map((child) => {
+        if (child.nodeType == Node.TEXT_NODE) {
+            const span = document.createElement("span");
+            span.textContent = child.textContent;
+            return span.innerHTML;
+        }
+        if (child.nodeType != Node.ELEMENT_NODE) {
+            return "";
+        }
+        const element = child as HTMLElement;
+        // The highlight of the editor is a background color
+        const tag = element.style?.backgroundColor ? "MARK" : element.tagName;
+        if (!ALLOWED_TAGS.includes(tag)) {
+            return ["SCRIPT", "STYLE"].includes(tag) ? "" : clean(element);
+        }
+        if (tag == "BR") {
+            return "<br>";
+        }
+        return `<${tag.toLowerCase()}>${clean(element)}</${tag.toLowerCase()}>`;
+    }).join("");
+    return clean(doc.body);
+}
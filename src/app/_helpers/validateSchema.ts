@@ -0,0 +1,52 @@
+import { SchemaNode, SchemaError } from "../_classes/schemaNode";
+
+export function validateSchema(value: any, schema: SchemaNode, path = ""): SchemaError[] {
+    const at = path || "(root)";
+    if (value === undefined || value === null) {
+        return schema.optional ? [] : [{ path: at, message: "is missing" }];
+    }
+    switch (schema.type) {
+    case "string":
+        if (typeof value !== "string") {
+            return [{ path: at, message: "must be a text" }];
+        }
+        if (schema.enum && !schema.enum.includes(value)) {
+            return [{ path: at, message: `must be one of ${schema.enum.map((e) => `"${e}"`).join(", ")}` }];
+        }
+        return [];
+    case "number":
+        if (typeof value !== "number" || Number.isNaN(value)) {
+            return [{ path: at, message: "must be a number" }];
+        }
+        if (schema.min !== undefined && value < schema.min) {
+            return [{ path: at, message: `must be at least ${schema.min}` }];
+        }
+        if (schema.max !== undefined && value > schema.max) {
+            return [{ path: at, message: `must be at most ${schema.max}` }];
+        }
+        return [];
+    case "boolean":
+        return typeof value === "boolean" ? [] : [{ path: at, message: "must be true or false" }];
+    case "array":
+        if (!Array.isArray(value)) {
+            return [{ path: at, message: "must be a list" }];
+        }
+        return value.reduce((errors, item, idx) => errors.concat(
+            validateSchema(item, schema.items, `${path}[${idx}]`),
+        ), []);
+    case "object":
+        if (typeof value !== "object" || Array.isArray(value)) {
+            return [{ path: at, message: "must be an object" }];
+        }
+        return Object.entries(schema.properties).reduce((errors, [key, node]) => errors.concat(
+            validateSchema(value[key], node, path ? `${path}.${key}` : key),
+        ), []);
+    case "oneOf":
+        if (schema.options.some((o) => validateSchema(value, o, path).length == 0)) {
+            return [];
+        }
+        return [{ path: at, message: "has an invalid value" }];
+    default:
+        return [];
+    }
+}
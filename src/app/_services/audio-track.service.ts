@@ -0,0 +1,114 @@
+import { Injectable } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { BehaviorSubject } from "rxjs";
+import { v4 as uuid } from "uuid";
+import * as path from "path";
+import { ShowService } from "./show.service";
+import {
+    AudioTrack, AudioTrackAction, AudioTrackItem, AudioTrackState,
+} from "../_classes/audioTrack";
+import { Slide } from "../_classes/slide";
+
+/**
+ * The background music of the show and the audio slides. The state is reported
+ * outside of the Angular zone, because it changes several times per second.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class AudioTrackService {
+    public audioTrack = new BehaviorSubject<AudioTrack>(new AudioTrack());
+    // Undefined when nothing is playing
+    public state = new BehaviorSubject<AudioTrackState>(undefined);
+    private initialized = false;
+
+    constructor(private showService: ShowService) {
+        ipcRenderer.on("audio-track-state", (_, state: AudioTrackState) => {
+            this.state.next(state);
+        });
+    }
+
+    public init(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+        this.showService.data.subscribe((data) => {
+            // The music of the previous show shouldn't continue in the next one
+            const playingId = this.state.value?.id;
+            if (playingId
+                && !(data?.audioTrack?.items || []).some((i) => i.id == playingId)
+                && !(data?.slides || []).some((s) => s.id == playingId)) {
+                this.stop();
+            }
+            this.audioTrack.next(Object.assign(new AudioTrack(), data?.audioTrack));
+            this.sync();
+        });
+    }
+
+    public addItems(files: string[]): void {
+        const items: AudioTrackItem[] = files.map((filePath) => ({
+            id: uuid(),
+            name: path.basename(filePath).split(".")[0],
+            filePath: path.normalize(filePath),
+        }));
+        this.audioTrack.value.items = [...this.audioTrack.value.items, ...items];
+        this.save();
+    }
+
+    public removeItem(item: AudioTrackItem): void {
+        this.audioTrack.value.items = this.audioTrack.value.items.filter((i) => i != item);
+        this.save();
+    }
+
+    public save(): void {
+        const { volume, duckingVolume } = this.audioTrack.value;
+        this.audioTrack.value.volume = Math.max(0, Math.min(volume, 1));
+        this.audioTrack.value.duckingVolume = Math.max(0, Math.min(duckingVolume, 1));
+        this.showService.setData("audioTrack", this.audioTrack.value);
+        this.sync();
+    }
+
+    /** @param idx index of the playlist item, the playlist is continued without it */
+    public play(idx?: number) {
+        this.control("play", idx);
+    }
+
+    public stop() {
+        this.control("stop");
+    }
+
+    public toggle() {
+        if (this.state.value) {
+            this.stop();
+        } else {
+            this.play();
+        }
+    }
+
+    public next() {
+        this.control("next");
+    }
+
+    public previous() {
+        this.control("previous");
+    }
+
+    /** @param volume between 0 and 1, it is saved with the show by save() */
+    public setVolume(volume: number) {
+        this.audioTrack.value.volume = volume;
+        this.control("volume", volume);
+    }
+
+    public playSlide(slide: Slide) {
+        remote.ipcMain.emit("audio-track-play-slide", slide);
+    }
+
+    private control(action: AudioTrackAction, value?: number) {
+        remote.ipcMain.emit("audio-track-control", { action, value });
+    }
+
+    private sync() {
+        remote.ipcMain.emit("audio-track-set", this.audioTrack.value);
+    }
+}
@@ -0,0 +1,143 @@
+import { Injectable } from "@angular/core";
+import { remote } from "electron";
+import * as fs from "fs";
+import * as path from "path";
+import { ShowService } from "./show.service";
+import { Slide } from "../_classes/slide";
+import { Section } from "../_classes/section";
+import { FollowAction } from "../_classes/cueOptions";
+import { transitionTypeNames } from "../_globals/transitionTypes";
+import { sanitizeNotes } from "../_helpers/sanitizeNotes";
+
+const followActionNames: { [action in FollowAction]: string } = {
+    stop: "Stop",
+    next: "Next slide",
+    slide: "Go to slide",
+    black: "Blackout",
+    logo: "Logo",
+    customLogo: "Custom logo",
+};
+
+function escapeHtml(text: string): string {
+    const span = document.createElement("span");
+    span.textContent = text;
+    return span.innerHTML;
+}
+
+/**
+ * Exports the slides with their cues and speaker notes as a printable PDF or HTML file.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class CueSheetService {
+    constructor(private showService: ShowService) {}
+
+    public async export(): Promise<void> {
+        const slides: Slide[] = this.showService.data.value?.slides || [];
+        if (slides.length == 0) {
+            // eslint-disable-next-line no-alert
+            alert("There are no slides to export.");
+            return;
+        }
+        const file = remote.dialog.showSaveDialogSync({
+            title: "Export cue sheet",
+            filters: [
+                { name: "PDF", extensions: ["pdf"] },
+                { name: "HTML", extensions: ["html"] },
+            ],
+            defaultPath: `${path.basename(this.showTitle, ".agvshow")} cue sheet.pdf`,
+        });
+        if (!file) {
+            return;
+        }
+        const html = this.getHtml(slides, this.showService.data.value?.sections || []);
+        try {
+            if (path.extname(file).toLowerCase() == ".html") {
+                fs.writeFileSync(file, html);
+                return;
+            }
+            const win = new remote.BrowserWindow({ show: false });
+            try {
+                await win.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`);
+                fs.writeFileSync(file, await win.webContents.printToPDF({ printBackground: true }));
+            } finally {
+                win.destroy();
+            }
+        } catch (e) {
+            // eslint-disable-next-line no-alert
+            alert(`The cue sheet couldn't be exported.\n\n${e.message}`);
+        }
+    }
+
+    private get showTitle() {
+        return this.showService.showTitle || "Unnamed";
+    }
+
+    private getCue(slide: Slide, slides: Slide[]) {
+        const cue = [];
+        if (slide.cue.holdDuration) {
+            cue.push(`Hold ${slide.cue.holdDuration} s`);
+        }
+        if (slide.type == "video" || slide.type == "audio") {
+            cue.push(slide.cue.loop ? "Loop" : "Play once");
+        }
+        if (slide.cue.followAction != "stop") {
+            const action = followActionNames[slide.cue.followAction];
+            const target = slides.find((s) => s.id == slide.cue.followSlideId);
+            cue.push(slide.cue.followAction == "slide" && target
+                ? `then ${action}: ${target.name}`
+                : `then ${action}`);
+        }
+        return cue.join(", ");
+    }
+
+    private getRow(slide: Slide, slides: Slide[]) {
+        const transition = slide.transition ? transitionTypeNames[slide.transition.type] : "Default";
+        return `<tr>
+            <td>${slides.indexOf(slide) + 1}</td>
+            <td><b>${escapeHtml(slide.name)}</b><br><small>${escapeHtml(slide.type)}</small></td>
+            <td>${escapeHtml(transition)}</td>
+            <td>${escapeHtml(this.getCue(slide, slides))}</td>
+            <td class="notes">${slide.notes ? sanitizeNotes(slide.notes) : ""}</td>
+        </tr>`;
+    }
+
+    private getHtml(slides: Slide[], sections: Section[]) {
+        const sectionIds = sections.map((s) => s.id);
+        const groups = [undefined, ...sections].map((section) => ({
+            section,
+            slides: slides.filter((s) => (section
+                ? s.sectionId == section.id
+                : !sectionIds.includes(s.sectionId))),
+        })).filter((g) => g.section || g.slides.length);
+        const rows = groups.map((g) => (g.section
+            ? `<tr class="section"><td colspan="5">${escapeHtml(g.section.name)}</td></tr>`
+            : "") + g.slides.map((s) => this.getRow(s, slides)).join("")).join("");
+        return `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(this.showTitle)}</title>
+    <style>
+        body { font-family: sans-serif; font-size: 11pt; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #999; padding: 4px 6px; text-align: left; vertical-align: top; }
+        tr { page-break-inside: avoid; }
+        .section td { background: #ddd; font-weight: bold; }
+        .notes { width: 40%; }
+        mark { background: #ffe066; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(this.showTitle)}</h1>
+    <table>
+        <thead>
+            <tr><th>#</th><th>Slide</th><th>Transition</th><th>Cue</th><th>Notes</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+    </table>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,73 @@
+import { Injectable, NgZone } from "@angular/core";
+import { ipcRenderer } from "electron";
+import { Subject } from "rxjs";
+import { Slide } from "../_classes/slide";
+import { ShowService } from "./show.service";
+import { DefaultScenesService } from "./default-scenes.service";
+
+@Injectable({
+    providedIn: "root",
+})
+export class CueService {
+    public goToSlide: Subject<string> = new Subject();
+    private currentSlide: Slide;
+    private holdTimeout: NodeJS.Timeout;
+
+    constructor(
+        private showService: ShowService,
+        private defaultScenesService: DefaultScenesService,
+        private zone: NgZone,
+    ) {
+        ipcRenderer.on("media-ended", (_, slideId: string) => {
+            this.zone.run(() => {
+                if (this.currentSlide && this.currentSlide.id == slideId
+                    && ["video", "audio"].includes(this.currentSlide.type)
+                    && !this.currentSlide.cue.loop) {
+                    this.follow();
+                }
+            });
+        });
+        this.defaultScenesService.sceneChanged.subscribe(() => this.stop());
+    }
+
+    public slideStarted(slide: Slide) {
+        this.stop();
+        this.currentSlide = slide;
+        if (!["video", "audio"].includes(slide.type) && slide.cue.holdDuration > 0) {
+            this.holdTimeout = setTimeout(() => this.follow(), slide.cue.holdDuration * 1000);
+        }
+    }
+
+    public stop() {
+        clearTimeout(this.holdTimeout);
+        this.currentSlide = undefined;
+    }
+
+    private follow() {
+        const { id, cue: { followAction, followSlideId } } = this.currentSlide;
+        this.stop();
+        switch (followAction) {
+        case "next": {
+            const slides: Slide[] = this.showService.data.value?.slides || [];
+            const idx = slides.findIndex((s) => s.id == id);
+            const next = idx > -1 ? slides[idx + 1] : undefined;
+            if (next) {
+                this.goToSlide.next(next.id);
+            }
+            break;
+        }
+        case "slide":
+            if (followSlideId) {
+                this.goToSlide.next(followSlideId);
+            }
+            break;
+        case "black":
+        case "logo":
+        case "customLogo":
+            this.defaultScenesService.transitionTo(followAction);
+            break;
+        default:
+            break;
+        }
+    }
+}
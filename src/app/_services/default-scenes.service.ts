@@ -1,11 +1,15 @@
 import { Injectable } from "@angular/core";
 import { remote } from "electron";
+import { Subject } from "rxjs";
 
 @Injectable({
     providedIn: "root",
 })
 export class DefaultScenesService {
+    public sceneChanged: Subject<"black" | "logo" | "customLogo"> = new Subject();
+
     public transitionTo(slide: "black" | "logo" | "customLogo") {
         remote.ipcMain.emit("transition-to-default-slide", slide);
+        this.sceneChanged.next(slide);
     }
 }
@@ -0,0 +1,96 @@
+import { Injectable } from "@angular/core";
+import * as bonjour from "bonjour";
+import * as os from "os";
+import { ShowService } from "./show.service";
+import { REMOTE_API_VERSION } from "./remote-api.service";
+import { getNetworkInterfaces } from "../_helpers/getNetworkInterfaces";
+
+// Advertised as _agview._tcp, the mobile app browses for it
+const SERVICE_TYPE = "agview";
+// Names which are tried on an interface before giving up on it
+const MAX_NAME_ATTEMPTS = 3;
+
+/**
+ * Advertises AGView via mDNS / DNS-SD, so mobiles can find it without the QR code.
+ * Every interface gets its own responder and name, so the mobile can tell them apart.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class DiscoveryService {
+    private responders: bonjour.Bonjour[] = [];
+    private port: number;
+    private showTitle: string;
+    private published: Promise<void> = Promise.resolve();
+
+    constructor(private showService: ShowService) {}
+
+    public start(port: number): void {
+        this.port = port;
+        this.showService.titleData.subscribe(({ title }) => {
+            // TXT records can't be updated, so the services are published again
+            if (title != this.showTitle) {
+                this.showTitle = title;
+                this.publish();
+            }
+        });
+    }
+
+    private publish() {
+        // The old services have to say goodbye before their names are probed again
+        this.published = this.published
+            .then(() => this.unpublish())
+            .then(() => this.advertise());
+    }
+
+    private advertise() {
+        for (const { ip } of getNetworkInterfaces()) {
+            try {
+                const responder = bonjour({ interface: ip });
+                this.advertiseOn(responder, ip, 1);
+                this.responders.push(responder);
+            } catch (e) {
+                // Mobiles can still connect with the QR code
+                // eslint-disable-next-line no-console
+                console.error(`Could not advertise AGView on ${ip}`, e);
+            }
+        }
+    }
+
+    // A name which is in use on the network gets a number, like "AGView on host (ip) #2"
+    private advertiseOn(responder: bonjour.Bonjour, ip: string, attempt: number) {
+        const name = `AGView on ${os.hostname()} (${ip})${attempt > 1 ? ` #${attempt}` : ""}`;
+        const service = responder.publish({
+            name,
+            type: SERVICE_TYPE,
+            port: this.port,
+            txt: {
+                ip,
+                show: this.showTitle || "",
+                apiVersion: REMOTE_API_VERSION.toString(),
+            },
+        });
+        service.on("error", (e: Error) => {
+            // eslint-disable-next-line no-console
+            console.error(`Could not advertise AGView on ${ip} as "${name}"`, e);
+            if (attempt < MAX_NAME_ATTEMPTS && this.responders.includes(responder)) {
+                this.advertiseOn(responder, ip, attempt + 1);
+            }
+        });
+    }
+
+    public stop(): void {
+        this.published = this.published.then(() => this.unpublish());
+    }
+
+    private unpublish(): Promise<void> {
+        const { responders } = this;
+        this.responders = [];
+        return Promise.all(responders.map((responder) => new Promise<void>((resolve) => {
+            responder.unpublishAll(() => {
+                responder.destroy();
+                resolve();
+            });
+        }))).then(() => undefined);
+    }
+}
@@ -0,0 +1,38 @@
+import { Injectable, NgZone } from "@angular/core";
+import { remote } from "electron";
+import { BehaviorSubject } from "rxjs";
+
+/**
+ * The displays connected to the computer, updated when displays are plugged in or removed.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class DisplayService {
+    public displays = new BehaviorSubject<Electron.Display[]>(remote.screen.getAllDisplays());
+
+    constructor(private zone: NgZone) {
+        const update = () => {
+            this.zone.run(() => this.displays.next(remote.screen.getAllDisplays()));
+        };
+        remote.screen.on("display-added", update);
+        remote.screen.on("display-removed", update);
+        remote.screen.on("display-metrics-changed", update);
+    }
+
+    public getDisplay(id: number): Electron.Display {
+        return this.displays.value.find((d) => d.id == id);
+    }
+
+    // An external display is preferred for outputs which aren't meant for the operator
+    public getSecondaryDisplay(): Electron.Display {
+        const primary = remote.screen.getPrimaryDisplay();
+        return this.displays.value.find((d) => d.id != primary.id) || primary;
+    }
+
+    public getName(display: Electron.Display): string {
+        const idx = this.displays.value.indexOf(display) + 1;
+        const primary = display.id == remote.screen.getPrimaryDisplay().id ? " (primary)" : "";
+        return `Display ${idx}: ${display.size.width}×${display.size.height}${primary}`;
+    }
+}
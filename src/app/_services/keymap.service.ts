@@ -0,0 +1,141 @@
+import { Injectable } from "@angular/core";
+import { remote } from "electron";
+import * as fs from "fs";
+import { Subject } from "rxjs";
+import { SettingsService } from "./settings.service";
+import { ShowService } from "./show.service";
+import { keymapCommands } from "../_globals/keymapCommands";
+import { normalizeAccelerator } from "../_helpers/accelerators";
+import { Slide } from "../_classes/slide";
+
+const keymapFilters = [{ name: "AGView keymap", extensions: ["json"] }];
+
+/**
+ * Keeps the shortcuts of the menu commands. Only the commands changed by the user
+ * are saved in the settings, all others use their default shortcuts.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class KeymapService {
+    public changed: Subject<void> = new Subject();
+    private overrides: { [commandId: string]: string[] };
+
+    constructor(
+        private settingsService: SettingsService,
+        private showService: ShowService,
+    ) {
+        this.overrides = this.settingsService.store.get("keymap");
+    }
+
+    public getShortcuts(commandId: string): string[] {
+        return this.overrides[commandId]
+            || keymapCommands.find((c) => c.id == commandId)?.defaultShortcuts
+            || [];
+    }
+
+    public setShortcuts(commandId: string, shortcuts: string[]): void {
+        this.overrides[commandId] = shortcuts;
+        this.save();
+    }
+
+    public isChanged(commandId: string): boolean {
+        return !!this.overrides[commandId];
+    }
+
+    // Without a command, all shortcuts are reset
+    public reset(commandId?: string): void {
+        if (commandId) {
+            delete this.overrides[commandId];
+        } else {
+            this.overrides = {};
+        }
+        this.save();
+    }
+
+    // Names of the commands and slides which are triggered by the accelerator
+    public getUsages(accelerator: string): string[] {
+        const normalized = normalizeAccelerator(accelerator);
+        const matches = (shortcut: string) => shortcut
+            && normalizeAccelerator(shortcut) == normalized;
+        return [
+            ...keymapCommands
+                .filter((c) => this.getShortcuts(c.id).some(matches))
+                .map((c) => c.name),
+            ...this.slides.filter((s) => matches(s.hotkey)).map((s) => `Slide "${s.name}"`),
+        ];
+    }
+
+    public hasConflict(accelerator: string): boolean {
+        return this.getUsages(accelerator).length > 1;
+    }
+
+    public export(): void {
+        const file = remote.dialog.showSaveDialogSync({
+            title: "Export keyboard shortcuts",
+            filters: keymapFilters,
+            defaultPath: "keymap.json",
+        });
+        if (!file) {
+            return;
+        }
+        try {
+            fs.writeFileSync(file, JSON.stringify({ keymap: this.overrides }, undefined, 4));
+        } catch (e) {
+            // eslint-disable-next-line no-alert
+            alert(`The keyboard shortcuts couldn't be exported.\n\n${e.message}`);
+        }
+    }
+
+    public import(): void {
+        const file = remote.dialog.showOpenDialogSync({
+            title: "Import keyboard shortcuts",
+            filters: keymapFilters,
+            properties: ["openFile"],
+        });
+        if (!(file && file[0])) {
+            return;
+        }
+        let keymap: unknown;
+        try {
+            keymap = JSON.parse(fs.readFileSync(file[0]).toString()).keymap;
+        } catch (e) {
+            // eslint-disable-next-line no-alert
+            alert(`The keyboard shortcuts couldn't be imported.\n\n${e.message}`);
+            return;
+        }
+        const error = this.checkKeymap(keymap);
+        if (error) {
+            // eslint-disable-next-line no-alert
+            alert(`The keyboard shortcuts couldn't be imported.\n\n${error}`);
+            return;
+        }
+        this.overrides = keymap as { [commandId: string]: string[] };
+        this.save();
+    }
+
+    private get slides(): Slide[] {
+        return this.showService.data.value?.slides || [];
+    }
+
+    private checkKeymap(keymap: unknown): string {
+        if (!keymap || typeof keymap !== "object" || Array.isArray(keymap)) {
+            return "The file doesn't contain a keymap.";
+        }
+        const commandIds = keymapCommands.map((c) => c.id);
+        for (const [commandId, shortcuts] of Object.entries(keymap)) {
+            if (!commandIds.includes(commandId)) {
+                return `"${commandId}" is not a command.`;
+            }
+            if (!Array.isArray(shortcuts) || shortcuts.some((s) => typeof s !== "string" || !s)) {
+                return `The shortcuts of "${commandId}" must be a list of accelerators.`;
+            }
+        }
+        return undefined;
+    }
+
+    private save() {
+        this.settingsService.store.set("keymap", this.overrides);
+        this.changed.next();
+    }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { BehaviorSubject } from "rxjs";
+import { MediaAction, MediaProgress } from "../_classes/mediaProgress";
+
+/**
+ * Transport controls for the live video. The progress is reported outside of the Angular zone,
+ * because it changes several times per second.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class MediaService {
+    public progress = new BehaviorSubject<MediaProgress>(undefined);
+
+    constructor() {
+        ipcRenderer.on("media-progress", (_, progress: MediaProgress) => {
+            this.progress.next(progress);
+        });
+    }
+
+    public play() {
+        this.control("play");
+    }
+
+    public pause() {
+        this.control("pause");
+    }
+
+    public togglePause() {
+        this.control(this.progress.value?.paused || this.progress.value?.ended ? "play" : "pause");
+    }
+
+    public restart() {
+        this.control("restart");
+    }
+
+    /** @param time milliseconds from the start */
+    public seek(time: number) {
+        this.control("seek", time);
+    }
+
+    /** @param volume between 0 and 1 */
+    public setVolume(volume: number) {
+        this.control("volume", volume);
+    }
+
+    private control(action: MediaAction, value?: number) {
+        remote.ipcMain.emit("media-control", { action, value });
+    }
+}
@@ -0,0 +1,181 @@
+import { Injectable, NgZone } from "@angular/core";
+import { BehaviorSubject, Observable, Subscription } from "rxjs";
+import { SettingsService } from "./settings.service";
+import { ShowService } from "./show.service";
+import { DefaultScenesService } from "./default-scenes.service";
+import { RemoteApiService } from "./remote-api.service";
+import {
+    MidiAction, MidiEvent, MidiMapping, MidiTrigger,
+} from "../_classes/midiMapping";
+import { parseMidiMessage } from "../_helpers/parseMidiMessage";
+
+// Web MIDI isn't part of the DOM typings of this TypeScript version
+type WebMidiInput = { name: string; onmidimessage: (event: { data: Uint8Array }) => void };
+type WebMidiAccess = { inputs: Map<string, WebMidiInput>; onstatechange: () => void };
+
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+export const midiActionNames: { [action in MidiAction]: string } = {
+    next: "Next slide",
+    previous: "Previous slide",
+    first: "First slide",
+    last: "Last slide",
+    black: "Blackout",
+    customLogo: "Custom logo",
+    logo: "AGView logo",
+    slide: "Go to slide",
+};
+
+function isSameTrigger(a: MidiTrigger, b: MidiTrigger): boolean {
+    return a.type == b.type && a.channel == b.channel && a.number == b.number;
+}
+
+/**
+ * Runs the actions mapped to MIDI notes, controllers and program changes.
+ * The messages come from all Web MIDI inputs, other sources like virtual ports
+ * can be connected with connect().
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class MidiService {
+    public mappings: BehaviorSubject<MidiMapping[]>;
+    public inputs = new BehaviorSubject<string[]>([]);
+    private learning: (trigger: MidiTrigger) => void;
+
+    constructor(
+        private settingsService: SettingsService,
+        private showService: ShowService,
+        private defaultScenesService: DefaultScenesService,
+        private remoteApiService: RemoteApiService,
+        private zone: NgZone,
+    ) {
+        this.mappings = new BehaviorSubject(this.settingsService.store.get("midiMappings"));
+    }
+
+    public init(): void {
+        this.connectWebMidi();
+    }
+
+    // Sources of raw MIDI messages like virtual ports can be connected in addition to Web MIDI
+    public connect(source: Observable<ArrayLike<number>>): Subscription {
+        return source.subscribe((data) => {
+            const event = parseMidiMessage(data);
+            if (event) {
+                this.zone.run(() => this.handle(event));
+            }
+        });
+    }
+
+    // Resolves with the next key, controller or program, or undefined when it is cancelled
+    public learn(): Promise<MidiTrigger> {
+        this.cancelLearning();
+        return new Promise((resolve) => {
+            this.learning = resolve;
+        });
+    }
+
+    public cancelLearning(): void {
+        if (this.learning) {
+            this.learning(undefined);
+            this.learning = undefined;
+        }
+    }
+
+    public setMappings(mappings: MidiMapping[]): void {
+        this.settingsService.store.set("midiMappings", mappings);
+        this.mappings.next(mappings);
+    }
+
+    public describe(trigger: MidiTrigger): string {
+        const channel = `channel ${trigger.channel}`;
+        switch (trigger.type) {
+        case "note": {
+            const octave = Math.floor(trigger.number / 12) - 1;
+            return `Note ${NOTE_NAMES[trigger.number % 12]}${octave} (${channel})`;
+        }
+        case "controlChange":
+            return `Controller ${trigger.number} (${channel})`;
+        default:
+            return `Program ${trigger.number + 1} (${channel})`;
+        }
+    }
+
+    private handle(event: MidiEvent) {
+        // Released keys, pedals and buttons don't trigger anything
+        if (event.type != "programChange" && event.value == 0) {
+            return;
+        }
+        const trigger: MidiTrigger = {
+            type: event.type,
+            channel: event.channel,
+            number: event.number,
+        };
+        if (this.learning) {
+            const resolve = this.learning;
+            this.learning = undefined;
+            resolve(trigger);
+            return;
+        }
+        for (const mapping of this.mappings.value) {
+            if (isSameTrigger(mapping.trigger, trigger)) {
+                this.run(mapping);
+            }
+        }
+    }
+
+    private run(mapping: MidiMapping) {
+        switch (mapping.action) {
+        case "next":
+            this.showService.messages.next("viewNextSlide");
+            break;
+        case "previous":
+            this.showService.messages.next("viewPreviousSlide");
+            break;
+        case "first":
+            this.showService.messages.next("viewFirstSlide");
+            break;
+        case "last":
+            this.showService.messages.next("viewLastSlide");
+            break;
+        case "black":
+        case "customLogo":
+        case "logo":
+            this.defaultScenesService.transitionTo(mapping.action);
+            break;
+        case "slide": {
+            const slide = (this.showService.data.value?.slides || [])[mapping.slideNumber - 1];
+            if (slide) {
+                this.remoteApiService.slideSelected.next(slide.id);
+            }
+            break;
+        }
+        default:
+            break;
+        }
+    }
+
+    private connectWebMidi() {
+        const { requestMIDIAccess } = navigator as any;
+        if (!requestMIDIAccess) {
+            return;
+        }
+        (requestMIDIAccess.call(navigator) as Promise<WebMidiAccess>).then((access) => {
+            this.connect(new Observable<Uint8Array>((subscriber) => {
+                // Devices can be plugged in at any time
+                const listen = () => {
+                    const inputs = Array.from(access.inputs.values());
+                    for (const input of inputs) {
+                        input.onmidimessage = (e) => subscriber.next(e.data);
+                    }
+                    this.zone.run(() => this.inputs.next(inputs.map((i) => i.name)));
+                };
+                access.onstatechange = listen;
+                listen();
+            }));
+        }, (e) => {
+            // eslint-disable-next-line no-console
+            console.warn("MIDI is not available:", e);
+        });
+    }
+}
@@ -0,0 +1,97 @@
+import { Injectable, NgZone } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { BehaviorSubject } from "rxjs";
+import { SettingsService } from "./settings.service";
+import { ShowService } from "./show.service";
+import { ProgramService } from "./program.service";
+import { MediaService } from "./media.service";
+import { RemoteApiService } from "./remote-api.service";
+import { AudioDevice, AudioLevels } from "../_classes/audioLevels";
+import { Slide } from "../_classes/slide";
+
+/**
+ * The master volume, the volume of the live video and the audio monitoring device.
+ * The levels are reported outside of the Angular zone, because they change ten times per second.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class MixerService {
+    public levels = new BehaviorSubject<AudioLevels>({ slide: [], music: [] });
+    // The first device is the default device of the system
+    public monitoringDevices = new BehaviorSubject<AudioDevice[]>([]);
+    private currentMasterVolume: number;
+
+    constructor(
+        private settingsService: SettingsService,
+        private showService: ShowService,
+        private programService: ProgramService,
+        private mediaService: MediaService,
+        private remoteApiService: RemoteApiService,
+        private zone: NgZone,
+    ) {
+        this.currentMasterVolume = this.settingsService.store.get("masterVolume");
+        ipcRenderer.on("audio-levels", (_, levels: AudioLevels) => {
+            this.levels.next(levels);
+        });
+        ipcRenderer.on("monitoring-devices", (_, devices: AudioDevice[]) => {
+            this.zone.run(() => this.monitoringDevices.next(devices));
+        });
+    }
+
+    public get masterVolume(): number {
+        return this.currentMasterVolume;
+    }
+
+    /** @param volume between 0 and 1, it is saved in the settings by saveMasterVolume() */
+    public setMasterVolume(volume: number) {
+        this.currentMasterVolume = volume;
+        remote.ipcMain.emit("master-volume", volume);
+    }
+
+    public saveMasterVolume() {
+        this.settingsService.store.set("masterVolume", this.currentMasterVolume);
+    }
+
+    // The video slide which is on the projector, audio slides are played with the music
+    public get liveSlide(): Slide {
+        const { slideId } = this.programService.state.value;
+        const slides: Slide[] = this.showService.data.value?.slides || [];
+        return slides.find((s) => s.id == slideId && s.type == "video");
+    }
+
+    /** @param volume between 0 and 1, it is saved with the slide by saveSlideVolume() */
+    public setSlideVolume(volume: number) {
+        this.mediaService.setVolume(volume);
+    }
+
+    public saveSlideVolume(volume: number) {
+        this.updateLiveSlide({ volume });
+    }
+
+    public toggleSlideMute() {
+        this.updateLiveSlide({ muted: !this.liveSlide?.muted });
+    }
+
+    public get monitoringDeviceId(): string {
+        return this.settingsService.store.get("monitoringDeviceId");
+    }
+
+    // An empty ID selects the default device
+    public set monitoringDeviceId(id: string) {
+        this.settingsService.store.set("monitoringDeviceId", id);
+        remote.ipcMain.emit("settings-changed");
+    }
+
+    // The devices are sent back through monitoringDevices
+    public requestMonitoringDevices() {
+        remote.ipcMain.emit("monitoring-devices-get");
+    }
+
+    private updateLiveSlide(properties: Partial<Slide>) {
+        const slide = this.liveSlide;
+        if (slide) {
+            this.remoteApiService.slideUpdated.next({ id: slide.id, properties });
+        }
+    }
+}
@@ -1,84 +1,301 @@
 import { Injectable, NgZone } from "@angular/core";
+import { ipcRenderer } from "electron";
 import * as express from "express";
-import { BehaviorSubject } from "rxjs";
+import * as crypto from "crypto";
+import { BehaviorSubject, Subject } from "rxjs";
 import { ShowService } from "./show.service";
 import { RecentShowsService } from "./recent-shows.service";
+import { StudioModeService } from "./studio-mode.service";
+import { ProgramService } from "./program.service";
+import { RemoteApiService } from "./remote-api.service";
+import { DiscoveryService } from "./discovery.service";
+import { MediaService } from "./media.service";
+import { ConnectedMobile, MobileRole } from "../_classes/connectedMobile";
+import { MediaProgress } from "../_classes/mediaProgress";
+import { Slide } from "../_classes/slide";
+import { requireRole } from "../_helpers/requireRole";
+import { sanitizeNotes } from "../_helpers/sanitizeNotes";
+
+const PORT = 4574;
+// Without similar looking characters, as the code can also be typed in
+const PAIRING_CODE_CHARACTERS = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const PAIRING_CODE_LENGTH = 8;
+const MAX_FAILED_PAIRING_ATTEMPTS = 5;
+// The mobile app sends a heartbeat every 5 seconds
+const MOBILE_OFFLINE_AFTER = 15 * 1000;
+// Gives mobiles which lost the connection time to reconnect with their token
+const MOBILE_EXPIRY = 5 * 60 * 1000;
+const MOBILE_CHECK_INTERVAL = 5 * 1000;
+// The position of the live video changes more often, mobiles count down between the updates
+const MEDIA_PUSH_INTERVAL = 1000;
 
 @Injectable({
     providedIn: "root",
 })
 export class MobileService {
     private server: express.Express;
-    public connectedMobiles: {
-        device: {
-            model: string;
-            deviceType: string;
-            os: string;
-            osVersion: string;
-            sdkVersion: string;
-            language: string;
-            manufacturer: string;
-            uuid: string;
-            region: string;
-        };
-    }[] = [];
+    public connectedMobiles: ConnectedMobile[] = [];
+    public mobilesChanged: Subject<void> = new Subject();
     public slideChanged: BehaviorSubject<number> = new BehaviorSubject<number>(undefined);
+    // One-time secret shown in the QR code, a mobile needs it to get a token
+    public pairingCode: string;
+    private failedPairingAttempts = 0;
+    // Open server-sent event streams, see /events
+    private eventStreams: { mobile: ConnectedMobile; res: express.Response }[] = [];
+    private currentSlideIdx: number;
     private expressRunning = false;
     constructor(
         private showService: ShowService,
         private recentShowsService: RecentShowsService,
+        private studioModeService: StudioModeService,
+        private programService: ProgramService,
+        private remoteApiService: RemoteApiService,
+        private discoveryService: DiscoveryService,
+        private mediaService: MediaService,
         private zone: NgZone,
-    ) { }
+    ) {
+        this.renewPairingCode();
+    }
+
+    public renewPairingCode(): void {
+        const bytes = crypto.randomBytes(PAIRING_CODE_LENGTH);
+        this.pairingCode = Array.from(bytes)
+            .map((b) => PAIRING_CODE_CHARACTERS[b % PAIRING_CODE_CHARACTERS.length])
+            .join("");
+        this.failedPairingAttempts = 0;
+        this.mobilesChanged.next();
+    }
+
+    public revoke(mobile: ConnectedMobile): void {
+        this.connectedMobiles = this.connectedMobiles.filter((m) => m !== mobile);
+        for (const stream of this.eventStreams.filter((s) => s.mobile === mobile)) {
+            stream.res.end();
+        }
+        this.eventStreams = this.eventStreams.filter((s) => s.mobile !== mobile);
+        this.mobilesChanged.next();
+    }
+
+    public isOnline(mobile: ConnectedMobile): boolean {
+        return Date.now() - mobile.lastSeen < MOBILE_OFFLINE_AFTER;
+    }
+
+    // Removes lost mobiles and keeps their status in the mobiles tab up to date
+    private checkMobiles() {
+        if (this.connectedMobiles.length == 0) {
+            return;
+        }
+        this.zone.run(() => {
+            const expired = this.connectedMobiles
+                .filter((m) => Date.now() - m.lastSeen > MOBILE_EXPIRY);
+            for (const mobile of expired) {
+                this.revoke(mobile);
+            }
+            this.mobilesChanged.next();
+        });
+    }
+
+    public setRole(mobile: ConnectedMobile, role: MobileRole): void {
+        mobile.role = role;
+        this.push("role", { role }, this.eventStreams.filter((s) => s.mobile === mobile));
+        this.mobilesChanged.next();
+    }
+
+    private getSlidesData() {
+        return {
+            // the mobiles show the notes as HTML
+            slides: ((this.showService.data.value?.slides || []) as Slide[])
+                .map((s) => (s.notes ? { ...s, notes: sanitizeNotes(s.notes) } : s)),
+            sections: this.showService.data.value?.sections || [],
+            studioMode: this.studioModeService.enabled.value,
+        };
+    }
+
+    private push(event: string, data: unknown, streams = this.eventStreams) {
+        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+        for (const stream of streams) {
+            stream.res.write(message);
+        }
+    }
+
+    private pushCurrentState(streams: { mobile: ConnectedMobile; res: express.Response }[]) {
+        for (const stream of streams) {
+            this.push("role", { role: stream.mobile.role }, [stream]);
+        }
+        this.push("show", { title: this.showService.showTitle }, streams);
+        this.push("slides", this.getSlidesData(), streams);
+        this.push("selection", { idx: this.currentSlideIdx }, streams);
+        this.push("program", this.programService.state.value, streams);
+        this.push("media", this.mediaService.progress.value || null, streams);
+    }
+
+    private watchState() {
+        this.showService.data.subscribe(() => {
+            this.push("show", { title: this.showService.showTitle });
+            this.push("slides", this.getSlidesData());
+        });
+        this.showService.dataChanged.subscribe((keys) => {
+            if (keys.includes("slides") || keys.includes("sections")) {
+                this.push("slides", this.getSlidesData());
+            }
+        });
+        this.studioModeService.enabled.subscribe(() => {
+            this.push("slides", this.getSlidesData());
+        });
+        this.showService.slideIdxChanged.subscribe(({ idx }) => {
+            this.currentSlideIdx = idx;
+            this.push("selection", { idx });
+        });
+        this.programService.state.subscribe((state) => {
+            this.push("program", state);
+        });
+        ipcRenderer.on("transition-started", (_, { duration }) => {
+            this.push("transition", { duration });
+        });
+        let lastMedia: MediaProgress;
+        let lastMediaPush = 0;
+        this.mediaService.progress.subscribe((media) => {
+            const changed = media?.slideId != lastMedia?.slideId
+                || media?.paused != lastMedia?.paused || media?.ended != lastMedia?.ended;
+            if (changed || Date.now() - lastMediaPush >= MEDIA_PUSH_INTERVAL) {
+                this.push("media", media || null);
+                lastMediaPush = Date.now();
+            }
+            lastMedia = media;
+        });
+    }
+
+    private isPairingCodeValid(code: unknown): boolean {
+        if (typeof code !== "string") {
+            return false;
+        }
+        // uppercasing can change the length, e.g. "ß" becomes "SS"
+        const given = Buffer.from(code.toUpperCase());
+        const expected = Buffer.from(this.pairingCode);
+        if (given.length != expected.length) {
+            return false;
+        }
+        return crypto.timingSafeEqual(given, expected);
+    }
+
+    private getMobile(req: any): ConnectedMobile {
+        const header: string = req.headers.authorization || "";
+        // thumbnails are loaded by image views which can't send headers
+        const token = header.startsWith("Bearer ") ? header.slice(7) : req.query.token;
+        return this.connectedMobiles.find((m) => m.token === token);
+    }
 
     public init(): void {
         (() => {
             if (this.expressRunning) {
                 return;
             }
+            this.watchState();
+            this.zone.runOutsideAngular(() => {
+                setInterval(() => this.checkMobiles(), MOBILE_CHECK_INTERVAL);
+            });
             this.server = express();
             this.server.use((req: any, res, next) => {
                 let data = "";
                 req.on("data", (chunk) => { data += chunk; });
                 req.on("end", () => {
                     req.rawBody = data;
-                    req.jsonBody = JSON.parse(data || "null");
+                    try {
+                        req.jsonBody = JSON.parse(data || "null");
+                    } catch (e) {
+                        res.status(400).send({ error: `The body is not valid JSON: ${e.message}` });
+                        return;
+                    }
                     next();
                 });
             });
             const r = express.Router();
             r.post("/connect", (req: any, res) => {
+                if (!this.isPairingCodeValid(req.jsonBody?.pairingCode)) {
+                    this.zone.run(() => {
+                        this.failedPairingAttempts++;
+                        if (this.failedPairingAttempts >= MAX_FAILED_PAIRING_ATTEMPTS) {
+                            // makes guessing the code impossible
+                            this.renewPairingCode();
+                        }
+                    });
+                    res.status(403).send({ error: "The pairing code is invalid. Please scan the QR code again." });
+                    return;
+                }
+                const token = crypto.randomBytes(32).toString("hex");
+                // New mobiles can't change anything until they get a role on the desktop
+                const role: MobileRole = "viewer";
                 this.zone.run(() => {
                     this.connectedMobiles.push({
                         device: req.jsonBody.device,
+                        token,
+                        role,
+                        lastSeen: Date.now(),
                     });
+                    this.renewPairingCode();
                 });
+                res.send({ success: true, token, role });
+            });
+            r.use((req: any, res, next) => {
+                req.mobile = this.getMobile(req);
+                if (!req.mobile) {
+                    res.status(401).send({ error: "This mobile is not paired (anymore). Please connect it again.", notPaired: true });
+                    return;
+                }
+                req.mobile.lastSeen = Date.now();
+                next();
+            });
+            r.post("/heartbeat", (req, res) => {
                 res.send({ success: true });
             });
-            r.get("/recentShows", (req: any, res) => {
+            r.use("/api/v1", this.remoteApiService.getRouter());
+            r.get("/recentShows", requireRole("operator"), (req: any, res) => {
                 res.send(this.recentShowsService.get());
             });
-            r.post("/openRecentShow", async (req: any, res) => {
+            r.post("/openRecentShow", requireRole("operator"), async (req: any, res) => {
                 await this.showService.open(req.jsonBody.show);
                 res.send({ success: true });
             });
             r.post("/disconnect", (req: any, res) => {
                 this.zone.run(() => {
-                    this.connectedMobiles = this.connectedMobiles.filter(
-                        (d) => d.device.uuid !== req.jsonBody.deviceId,
-                    );
+                    this.revoke(req.mobile);
                 });
                 res.send({ success: true });
             });
-            r.post("/show", (req: any, res) => {
+            r.post("/show", requireRole("presenter", "operator"), (req: any, res) => {
+                if (!this.remoteApiService.canSelect(req.mobile, req.jsonBody.slideId)) {
+                    res.status(403).send({ error: "Presenters can only move within the current section.", forbidden: true });
+                    return;
+                }
                 this.zone.run(() => {
                     this.slideChanged.next(((this.showService.data.value?.slides || []) as any[])
                         .findIndex((s) => s.id == req.jsonBody.slideId));
                 });
                 res.send({ success: true });
             });
+            r.post("/take", requireRole("presenter", "operator"), (req: any, res) => {
+                if (!this.remoteApiService.canTake(req.mobile)) {
+                    res.status(403).send({ error: "Presenters can only take slides of the current section.", forbidden: true });
+                    return;
+                }
+                this.zone.run(() => {
+                    this.showService.messages.next("take");
+                });
+                res.send({ success: true });
+            });
             r.get("/slides", async (req, res) => {
-                res.send({
-                    slides: this.showService.data.value?.slides || [],
+                res.send(this.getSlidesData());
+            });
+            r.get("/events", (req: any, res) => {
+                res.writeHead(200, {
+                    "Content-Type": "text/event-stream",
+                    "Cache-Control": "no-cache",
+                    Connection: "keep-alive",
+                });
+                const stream = { mobile: req.mobile, res };
+                this.eventStreams.push(stream);
+                this.pushCurrentState([stream]);
+                req.on("close", () => {
+                    this.eventStreams = this.eventStreams.filter((s) => s !== stream);
                 });
             });
             r.get("/thumbnails/:id", async (req, res) => {
@@ -87,10 +304,11 @@ export class MobileService {
                 res.sendFile(slide.thumbnail ? slide.thumbnail : "assets/images/thumbnail.png");
             });
             this.server.use(r);
-            this.server.listen(4574, () => {
+            this.server.listen(PORT, () => {
                 // eslint-disable-next-line no-console
-                console.log("listening on port 4574");
+                console.log(`listening on port ${PORT}`);
                 this.expressRunning = true;
+                this.discoveryService.start(PORT);
             });
         })();
     }
@@ -0,0 +1,148 @@
+import { Injectable, NgZone } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { ShowService } from "./show.service";
+import { DefaultScenesService } from "./default-scenes.service";
+import { StudioModeService } from "./studio-mode.service";
+import { ProjectorService } from "./projector.service";
+import { ProgramService } from "./program.service";
+import { RemoteApiService } from "./remote-api.service";
+import { MediaService } from "./media.service";
+import { Slide } from "../_classes/slide";
+import { OscArgument, OscMessage } from "../_classes/oscMessage";
+
+// Every address starts with it, see docs/osc.md
+const NAMESPACE = "/agview";
+
+/**
+ * Maps the OSC messages received by the main process onto the same actions as the menu
+ * and the mobiles, and sends the current slide and state changes back as feedback.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class OscService {
+    private currentSlideIdx: number;
+    private handlers: { [address: string]: (args: OscArgument[]) => void } = {
+        "/next": () => this.showService.messages.next("viewNextSlide"),
+        "/previous": () => this.showService.messages.next("viewPreviousSlide"),
+        "/first": () => this.showService.messages.next("viewFirstSlide"),
+        "/last": () => this.showService.messages.next("viewLastSlide"),
+        "/take": () => this.showService.messages.next("take"),
+        "/slide/go": ([n]) => {
+            const slide = this.slides[Math.round(Number(n)) - 1];
+            if (slide) {
+                this.remoteApiService.slideSelected.next(slide.id);
+            }
+        },
+        "/section/next": () => this.showService.messages.next("viewNextSection"),
+        "/section/previous": () => this.showService.messages.next("viewPreviousSection"),
+        "/section/go": ([n]) => this.showService.goToSection.next(Math.round(Number(n)) - 1),
+        "/blackout": () => this.defaultScenesService.transitionTo("black"),
+        "/logo": () => this.defaultScenesService.transitionTo("logo"),
+        "/customlogo": () => this.defaultScenesService.transitionTo("customLogo"),
+        // Without an argument, the projector and studio mode are toggled,
+        // desks often send booleans as numbers
+        "/projector": ([enabled]) => {
+            if (enabled === undefined) {
+                this.projectorService.toggle();
+            } else {
+                this.projectorService.setEnabled(!!Number(enabled));
+            }
+        },
+        "/studiomode": ([enabled]) => {
+            if (enabled === undefined
+                || !!Number(enabled) != this.studioModeService.enabled.value) {
+                this.studioModeService.toggle();
+            }
+        },
+        "/media/play": () => this.mediaService.play(),
+        "/media/pause": () => this.mediaService.pause(),
+        "/media/restart": () => this.mediaService.restart(),
+        // Messages without a number are ignored, they would be NaN
+        "/media/seek": ([seconds]) => {
+            if (Number.isFinite(Number(seconds))) {
+                this.mediaService.seek(Number(seconds) * 1000);
+            }
+        },
+        "/media/volume": ([volume]) => {
+            if (Number.isFinite(Number(volume))) {
+                this.mediaService.setVolume(Number(volume));
+            }
+        },
+        "/feedback": () => this.sendAllFeedback(),
+    };
+
+    constructor(
+        private showService: ShowService,
+        private defaultScenesService: DefaultScenesService,
+        private studioModeService: StudioModeService,
+        private projectorService: ProjectorService,
+        private programService: ProgramService,
+        private remoteApiService: RemoteApiService,
+        private mediaService: MediaService,
+        private zone: NgZone,
+    ) {}
+
+    public init(): void {
+        remote.ipcMain.emit("osc-init");
+        ipcRenderer.on("osc-message", (_, message: OscMessage) => {
+            this.zone.run(() => this.handle(message));
+        });
+        ipcRenderer.on("osc-error", (_, error: string) => {
+            // eslint-disable-next-line no-alert
+            alert(`OSC control is not available.\n\n${error}`);
+        });
+        this.showService.slideIdxChanged.subscribe(({ idx }) => {
+            this.currentSlideIdx = idx;
+            this.sendSlideFeedback();
+        });
+        this.programService.state.subscribe(() => this.sendProgramFeedback());
+        this.studioModeService.enabled.subscribe((enabled) => {
+            this.send("/studiomode", enabled ? 1 : 0);
+        });
+        this.projectorService.enabled.subscribe((enabled) => {
+            this.send("/projector", enabled ? 1 : 0);
+        });
+        this.showService.titleData.subscribe(({ title }) => this.send("/show", title));
+    }
+
+    private get slides(): Slide[] {
+        return this.showService.data.value?.slides || [];
+    }
+
+    private handle(message: OscMessage) {
+        if (!message.address.startsWith(`${NAMESPACE}/`)) {
+            return;
+        }
+        const handler = this.handlers[message.address.slice(NAMESPACE.length).toLowerCase()];
+        if (handler) {
+            handler(message.args);
+        }
+    }
+
+    // Slide numbers start at 1 like on the desk, 0 means that there is no slide
+    private sendSlideFeedback() {
+        const slide = this.slides[this.currentSlideIdx];
+        this.send("/slide", slide ? this.currentSlideIdx + 1 : 0, slide ? slide.name : "");
+    }
+
+    private sendProgramFeedback() {
+        const { slideId, defaultScene } = this.programService.state.value;
+        const idx = this.slides.findIndex((s) => s.id == slideId);
+        this.send("/live", idx + 1, idx > -1 ? this.slides[idx].name : "");
+        this.send("/scene", defaultScene || "");
+    }
+
+    private sendAllFeedback() {
+        this.send("/show", this.showService.showTitle || "");
+        this.sendSlideFeedback();
+        this.sendProgramFeedback();
+        this.send("/studiomode", this.studioModeService.enabled.value ? 1 : 0);
+        this.send("/projector", this.projectorService.enabled.value ? 1 : 0);
+    }
+
+    private send(address: string, ...args: OscArgument[]) {
+        const message: OscMessage = { address: NAMESPACE + address, args };
+        remote.ipcMain.emit("osc-send", message);
+    }
+}
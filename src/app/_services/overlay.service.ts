@@ -0,0 +1,80 @@
+import { Injectable } from "@angular/core";
+import { remote } from "electron";
+import { BehaviorSubject } from "rxjs";
+import { v4 as uuid } from "uuid";
+import * as path from "path";
+import { Overlay, OverlayType } from "../_classes/overlay";
+import { ShowService } from "./show.service";
+import { defaultTextOptions } from "../_globals/defaultTextOptions";
+
+@Injectable({
+    providedIn: "root",
+})
+export class OverlayService {
+    public overlays: BehaviorSubject<Overlay[]> = new BehaviorSubject([]);
+    // Ids of the overlays which are currently shown
+    public active: BehaviorSubject<string[]> = new BehaviorSubject([]);
+    private initialized = false;
+
+    constructor(private showService: ShowService) { }
+
+    public init(): void {
+        if (this.initialized) {
+            return;
+        }
+        this.initialized = true;
+        this.showService.data.subscribe((data) => {
+            const overlays: Overlay[] = (data && data.overlays) || [];
+            this.active.next(this.active.value.filter((id) => overlays.some((o) => o.id == id)));
+            this.overlays.next(overlays);
+            this.sync();
+        });
+    }
+
+    public create(type: OverlayType, filePath?: string): Overlay {
+        const overlay = new Overlay();
+        overlay.id = uuid();
+        overlay.type = type;
+        if (type == "text") {
+            overlay.name = "Text";
+            overlay.text = {
+                ...defaultTextOptions, content: "Text", fontSize: 48, wrap: false, align: "left",
+            };
+        } else {
+            overlay.filePath = path.normalize(filePath);
+            [overlay.name] = path.basename(filePath).split(".");
+        }
+        this.overlays.next([...this.overlays.value, overlay]);
+        this.save();
+        return overlay;
+    }
+
+    public remove(overlay: Overlay): void {
+        this.hide(overlay);
+        this.overlays.next(this.overlays.value.filter((o) => o != overlay));
+        this.save();
+    }
+
+    public save(): void {
+        this.showService.setData("overlays", this.overlays.value);
+        this.sync();
+    }
+
+    public toggle(overlay: Overlay): void {
+        if (this.active.value.includes(overlay.id)) {
+            this.hide(overlay);
+        } else {
+            remote.ipcMain.emit("show-overlay", overlay.id);
+            this.active.next([...this.active.value, overlay.id]);
+        }
+    }
+
+    private hide(overlay: Overlay) {
+        remote.ipcMain.emit("hide-overlay", overlay.id);
+        this.active.next(this.active.value.filter((id) => id != overlay.id));
+    }
+
+    private sync() {
+        remote.ipcMain.emit("set-overlays", this.overlays.value);
+    }
+}
@@ -0,0 +1,147 @@
+import { Injectable, NgZone } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { BehaviorSubject } from "rxjs";
+import * as url from "url";
+import { ShowService } from "./show.service";
+import { ProgramService, ProgramState } from "./program.service";
+import { SettingsService } from "./settings.service";
+import { DisplayService } from "./display.service";
+import { Slide } from "../_classes/slide";
+import { sanitizeNotes } from "../_helpers/sanitizeNotes";
+import { isEmbeddedText } from "../_helpers/isEmbeddedText";
+
+const defaultSceneNames = {
+    black: "Black",
+    logo: "Logo",
+    customLogo: "Custom logo",
+};
+
+// Sent to src/assets/presenter.html, the remaining time of videos is sent by OBS directly
+export type PresenterState = {
+    showTitle: string;
+    live: { slideId?: string; name: string; type?: string; loop?: boolean; notes?: string };
+    next?: { name: string; thumbnail?: string; text?: string };
+    showStartedAt?: number;
+};
+
+/**
+ * The stage monitor window. It shows the program, the next slide, the notes of the live slide
+ * and the time, and follows the same state as the home screen.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class PresenterService {
+    public enabled = new BehaviorSubject<boolean>(false);
+    private currentSlideIdx: number;
+    private showData: any;
+    // The elapsed time is counted from the first slide which went live in the show
+    private showStartedAt: number;
+
+    constructor(
+        private showService: ShowService,
+        private programService: ProgramService,
+        private settingsService: SettingsService,
+        private displayService: DisplayService,
+        private zone: NgZone,
+    ) {
+        this.showService.data.subscribe((data) => {
+            // undo and redo emit the same object again
+            if (data !== this.showData) {
+                this.showData = data;
+                this.showStartedAt = undefined;
+            }
+            this.sendState();
+        });
+        this.showService.dataChanged.subscribe(() => this.sendState());
+        this.showService.slideIdxChanged.subscribe(({ idx }) => {
+            this.currentSlideIdx = idx;
+            this.sendState();
+        });
+        this.programService.state.subscribe((state) => {
+            if (state.slideId && !this.showStartedAt) {
+                this.showStartedAt = Date.now();
+            }
+            this.sendState();
+        });
+        ipcRenderer.on("presenter-ready", () => this.sendState());
+        // The presenter window can also be closed with Alt+F4
+        ipcRenderer.on("presenter-closed", () => {
+            this.zone.run(() => {
+                if (this.enabled.value) {
+                    this.enabled.next(false);
+                }
+            });
+        });
+    }
+
+    public get displayId(): number {
+        return this.settingsService.store.get("presenterDisplayId");
+    }
+
+    public set displayId(id: number) {
+        this.settingsService.store.set("presenterDisplayId", id);
+        if (this.enabled.value) {
+            this.open();
+        }
+    }
+
+    // Opens the window on the chosen display or moves it there
+    public open() {
+        const display = this.displayService.getDisplay(this.displayId)
+            || this.displayService.getSecondaryDisplay();
+        remote.ipcMain.emit("presenter-open", display.bounds);
+        this.enabled.next(true);
+    }
+
+    public close() {
+        remote.ipcMain.emit("presenter-close");
+        this.enabled.next(false);
+    }
+
+    public toggle() {
+        if (this.enabled.value) {
+            this.close();
+        } else {
+            this.open();
+        }
+    }
+
+    private get slides(): Slide[] {
+        return this.showService.data.value?.slides || [];
+    }
+
+    private getState(program: ProgramState): PresenterState {
+        const liveSlide = this.slides.find((s) => s.id == program.slideId);
+        const selectedSlide = this.slides[this.currentSlideIdx];
+        // The selected slide is taken next, unless it's already live
+        const nextSlide = selectedSlide && selectedSlide != liveSlide
+            ? selectedSlide
+            : this.slides[this.slides.indexOf(liveSlide) + 1];
+        return {
+            showTitle: this.showService.showTitle || "Unnamed",
+            live: liveSlide ? {
+                slideId: liveSlide.id,
+                name: liveSlide.name,
+                type: liveSlide.type,
+                loop: liveSlide.cue.loop,
+                notes: liveSlide.notes ? sanitizeNotes(liveSlide.notes) : undefined,
+            } : { name: defaultSceneNames[program.defaultScene] },
+            next: nextSlide && liveSlide != nextSlide ? {
+                name: nextSlide.name,
+                thumbnail: nextSlide.thumbnail
+                    ? url.pathToFileURL(nextSlide.thumbnail).href
+                    : undefined,
+                text: isEmbeddedText(nextSlide) ? nextSlide.text.content : undefined,
+            } : undefined,
+            showStartedAt: this.showStartedAt,
+        };
+    }
+
+    private sendState() {
+        if (!this.enabled.value) {
+            return;
+        }
+        remote.ipcMain.emit("presenter-state", this.getState(this.programService.state.value));
+    }
+}
@@ -0,0 +1,28 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { Slide } from "../_classes/slide";
+import { DefaultScenesService } from "./default-scenes.service";
+
+// What is currently shown on the projector, either a slide or one of the default scenes
+export type ProgramState = {
+    slideId?: string;
+    defaultScene?: "black" | "logo" | "customLogo";
+};
+
+@Injectable({
+    providedIn: "root",
+})
+export class ProgramService {
+    // OBS starts with the logo scene
+    public state = new BehaviorSubject<ProgramState>({ defaultScene: "logo" });
+
+    constructor(private defaultScenesService: DefaultScenesService) {
+        this.defaultScenesService.sceneChanged.subscribe((defaultScene) => {
+            this.state.next({ defaultScene });
+        });
+    }
+
+    public slideLive(slide: Slide) {
+        this.state.next({ slideId: slide.id });
+    }
+}
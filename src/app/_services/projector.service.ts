@@ -0,0 +1,100 @@
+import { Injectable, NgZone } from "@angular/core";
+import { remote, ipcRenderer } from "electron";
+import { BehaviorSubject } from "rxjs";
+import { SettingsService } from "./settings.service";
+import { DisplayService } from "./display.service";
+
+// The projector which is used when no display is selected
+const WINDOW_PROJECTOR_ID = "window";
+
+/**
+ * Shows the program fullscreen on the selected displays, or in a window when none of them
+ * is connected. Displays which are plugged in while the projector is enabled get their
+ * output as soon as they are connected.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class ProjectorService {
+    public enabled = new BehaviorSubject<boolean>(false);
+    // The projectors which are currently open with the bounds of their display
+    private projectors: { [id: string]: Electron.Rectangle } = {};
+
+    constructor(
+        private settingsService: SettingsService,
+        private displayService: DisplayService,
+        private zone: NgZone,
+    ) {
+        // Projector windows can also be closed by the user
+        ipcRenderer.on("projector-closed", (event, id: string) => {
+            this.zone.run(() => {
+                delete this.projectors[id];
+                if (this.enabled.value && Object.keys(this.projectors).length == 0) {
+                    this.enabled.next(false);
+                }
+            });
+        });
+        this.displayService.displays.subscribe(() => this.update());
+    }
+
+    public get displayIds(): number[] {
+        return this.settingsService.store.get("projectorDisplayIds");
+    }
+
+    public isSelected(displayId: number): boolean {
+        return this.displayIds.includes(displayId);
+    }
+
+    public setSelected(displayId: number, selected: boolean) {
+        const displayIds = this.displayIds.filter((id) => id != displayId);
+        if (selected) {
+            displayIds.push(displayId);
+        }
+        this.settingsService.store.set("projectorDisplayIds", displayIds);
+        this.update();
+    }
+
+    public setEnabled(enabled: boolean) {
+        if (enabled == this.enabled.value) {
+            return;
+        }
+        this.enabled.next(enabled);
+        this.update();
+    }
+
+    public toggle() {
+        this.setEnabled(!this.enabled.value);
+    }
+
+    // Opens, moves and closes the projectors to match the selected and connected displays
+    private update() {
+        const wanted: { [id: string]: Electron.Rectangle } = {};
+        if (this.enabled.value) {
+            const displays = this.displayIds
+                .map((id) => this.displayService.getDisplay(id))
+                .filter((d) => d);
+            for (const display of displays) {
+                wanted[`display-${display.id}`] = display.bounds;
+            }
+            if (displays.length == 0) {
+                wanted[WINDOW_PROJECTOR_ID] = undefined;
+            }
+        }
+        try {
+            for (const id of Object.keys(this.projectors)) {
+                if (!(id in wanted)) {
+                    remote.ipcMain.emit("projector-end", id);
+                }
+            }
+            for (const [id, bounds] of Object.entries(wanted)) {
+                if (!(id in this.projectors)
+                    || JSON.stringify(bounds) != JSON.stringify(this.projectors[id])) {
+                    remote.ipcMain.emit("projector-init", { id, bounds });
+                }
+            }
+        } catch {
+            //
+        }
+        this.projectors = wanted;
+    }
+}
@@ -0,0 +1,90 @@
+import { Injectable } from "@angular/core";
+import * as fs from "fs";
+import * as path from "path";
+import { Slide } from "../_classes/slide";
+import { AudioTrackItem } from "../_classes/audioTrack";
+import { isEmbeddedText } from "../_helpers/isEmbeddedText";
+
+@Injectable({
+    providedIn: "root",
+})
+export class RelinkService {
+    private readonly maxSearchDepth = 8;
+
+    public isMissing(slide: Slide): boolean {
+        if (isEmbeddedText(slide)) {
+            return false;
+        }
+        return !slide.filePath || !fs.existsSync(slide.filePath);
+    }
+
+    public relink(slide: Slide, filePath: string): void {
+        slide.filePath = path.normalize(filePath);
+        slide.fileSize = fs.statSync(slide.filePath).size;
+        slide.missing = false;
+    }
+
+    public isAudioTrackItemMissing(item: AudioTrackItem): boolean {
+        return !item.filePath || !fs.existsSync(item.filePath);
+    }
+
+    public relinkAudioTrackItem(item: AudioTrackItem, filePath: string): void {
+        item.filePath = path.normalize(filePath);
+    }
+
+    /**
+     * Searches the folder recursively for the files of the given slides or songs.
+     * A file with the same name is preferred, if there are several, the one
+     * with the same size wins. Otherwise a file with the same extension and
+     * size is used, but only if it is the only one. Songs don't know their size.
+     */
+    public findMatches<T extends { filePath: string; fileSize?: number }>(
+        items: T[], folder: string,
+    ): { item: T; filePath: string }[] {
+        const files = this.listFiles(folder);
+        const matches: { item: T; filePath: string }[] = [];
+        for (const item of items) {
+            const name = item.filePath.split(/[\\/]/).pop().toLowerCase();
+            const ext = path.extname(name);
+            const sameName = files.filter((f) => f.name == name);
+            const sameSize = item.fileSize !== undefined
+                ? files.filter((f) => f.size == item.fileSize && path.extname(f.name) == ext)
+                : [];
+            let match = sameName.find((f) => f.size == item.fileSize) || sameName[0];
+            if (!match && sameSize.length == 1) {
+                [match] = sameSize;
+            }
+            if (match) {
+                matches.push({ item, filePath: match.filePath });
+            }
+        }
+        return matches;
+    }
+
+    private listFiles(dir: string, depth = 0): { filePath: string; name: string; size: number }[] {
+        let entries: fs.Dirent[];
+        try {
+            entries = fs.readdirSync(dir, { withFileTypes: true });
+        } catch {
+            return [];
+        }
+        const files = [];
+        for (const entry of entries) {
+            const filePath = path.join(dir, entry.name);
+            if (entry.isDirectory() && depth < this.maxSearchDepth) {
+                files.push(...this.listFiles(filePath, depth + 1));
+            } else if (entry.isFile()) {
+                try {
+                    files.push({
+                        filePath,
+                        name: entry.name.toLowerCase(),
+                        size: fs.statSync(filePath).size,
+                    });
+                } catch {
+                    //
+                }
+            }
+        }
+        return files;
+    }
+}
@@ -0,0 +1,410 @@
+import { Injectable, NgZone } from "@angular/core";
+import * as express from "express";
+import { Subject } from "rxjs";
+import { ShowService } from "./show.service";
+import { RecentShowsService } from "./recent-shows.service";
+import { DefaultScenesService } from "./default-scenes.service";
+import { StudioModeService } from "./studio-mode.service";
+import { ProjectorService } from "./projector.service";
+import { ProgramService } from "./program.service";
+import { MediaService } from "./media.service";
+import { AudioTrackService } from "./audio-track.service";
+import { Slide } from "../_classes/slide";
+import { ConnectedMobile } from "../_classes/connectedMobile";
+import { slideSchema } from "../_globals/showFileSchema";
+import { validateSchema } from "../_helpers/validateSchema";
+import { requireRole } from "../_helpers/requireRole";
+import { sanitizeNotes } from "../_helpers/sanitizeNotes";
+
+// Bump when existing endpoints change incompatibly, the old version has to stay available
+export const REMOTE_API_VERSION = 1;
+
+// Slide properties which can be changed with PATCH /slides/:id
+const EDITABLE_SLIDE_PROPERTIES = [
+    "name", "alignment", "cue", "transition", "text", "notes", "volume", "muted",
+];
+const DEFAULT_SCENES = ["black", "logo", "customLogo"];
+
+/**
+ * The versioned control API, see docs/remote-api.md.
+ * Its router is mounted by the MobileService behind the token authentication.
+ * Viewers can only read, presenters can move within the current section and
+ * operators can do everything.
+ */
+@Injectable({
+    providedIn: "root",
+})
+export class RemoteApiService {
+    public slideSelected: Subject<string> = new Subject();
+    public slideUpdated: Subject<{ id: string; properties: Partial<Slide> }> = new Subject();
+    public slideRemoved: Subject<string> = new Subject();
+    private currentSlideIdx: number;
+
+    constructor(
+        private showService: ShowService,
+        private recentShowsService: RecentShowsService,
+        private defaultScenesService: DefaultScenesService,
+        private studioModeService: StudioModeService,
+        private projectorService: ProjectorService,
+        private programService: ProgramService,
+        private mediaService: MediaService,
+        private audioTrackService: AudioTrackService,
+        private zone: NgZone,
+    ) {
+        this.showService.slideIdxChanged.subscribe(({ idx }) => {
+            this.currentSlideIdx = idx;
+        });
+    }
+
+    private get slides(): Slide[] {
+        return this.showService.data.value?.slides || [];
+    }
+
+    // Presenters can only select slides in the section of the selected slide
+    public canSelect(mobile: ConnectedMobile, slideId: string): boolean {
+        if (mobile.role == "operator") {
+            return true;
+        }
+        const currentSlide = this.slides[this.currentSlideIdx];
+        const slide = this.slides.find((s) => s.id == slideId);
+        return mobile.role == "presenter" && !!currentSlide && !!slide
+            && slide.sectionId == currentSlide.sectionId;
+    }
+
+    // Presenters can only take the previewed slide if it is in the section of the live slide
+    public canTake(mobile: ConnectedMobile): boolean {
+        if (mobile.role == "operator") {
+            return true;
+        }
+        const previewedSlide = this.slides[this.currentSlideIdx];
+        const liveSlide = this.slides.find((s) => s.id == this.programService.state.value.slideId);
+        return mobile.role == "presenter" && !!previewedSlide && !!liveSlide
+            && previewedSlide.sectionId == liveSlide.sectionId;
+    }
+
+    private getState() {
+        const currentSlide = this.slides[this.currentSlideIdx];
+        return {
+            apiVersion: REMOTE_API_VERSION,
+            show: {
+                title: this.showService.showTitle,
+                hasUnsavedChanges: this.showService.hasUnsavedChanges,
+            },
+            selection: {
+                idx: currentSlide ? this.currentSlideIdx : null,
+                slideId: currentSlide ? currentSlide.id : null,
+            },
+            program: this.programService.state.value,
+            media: this.mediaService.progress.value || null,
+            audio: this.audioTrackService.state.value || null,
+            studioMode: this.studioModeService.enabled.value,
+            projector: this.projectorService.enabled.value,
+            history: this.showService.historyChanged.value,
+        };
+    }
+
+    // Nested objects are merged, so single options like the padding can be changed
+    private mergeSlideProperties(slide: Slide, properties: { [key: string]: any }) {
+        const merged = { ...slide };
+        for (const [key, value] of Object.entries(properties)) {
+            const isObject = value && typeof value === "object" && !Array.isArray(value);
+            merged[key] = isObject && slide[key] ? { ...slide[key], ...value } : value;
+        }
+        return merged;
+    }
+
+    private checkSlideProperties(slide: Slide, properties: unknown): string {
+        if (!properties || typeof properties !== "object" || Array.isArray(properties)) {
+            return "The body must be an object with the properties to change.";
+        }
+        const keys = Object.keys(properties);
+        const invalidKey = keys.find((k) => !EDITABLE_SLIDE_PROPERTIES.includes(k));
+        if (invalidKey) {
+            return `"${invalidKey}" can't be changed, editable properties are ${EDITABLE_SLIDE_PROPERTIES.join(", ")}.`;
+        }
+        if (keys.includes("text") && slide.type != "text") {
+            return "Only text slides have text options.";
+        }
+        if (["volume", "muted"].some((k) => keys.includes(k))
+            && !["video", "audio"].includes(slide.type)) {
+            return "Only video and audio slides have a volume.";
+        }
+        if (["name", "alignment", "cue", "text"].some((k) => properties[k] === null)) {
+            return "Only the transition, the notes, the volume and mute can be removed.";
+        }
+        const errors = validateSchema(this.mergeSlideProperties(slide, properties), slideSchema);
+        if (errors.length) {
+            return errors.map((e) => `${e.path} ${e.message}`).join(", ");
+        }
+        return undefined;
+    }
+
+    // Runs the action in the Angular zone and answers with the current state
+    private act(res: express.Response, action: () => void) {
+        this.zone.run(action);
+        res.send({ success: true, state: this.getState() });
+    }
+
+    public getRouter(): express.Router {
+        const r = express.Router();
+        const operator = requireRole("operator");
+        const presenter = requireRole("presenter", "operator");
+        r.get("/", (req, res) => {
+            res.send({ apiVersion: REMOTE_API_VERSION });
+        });
+        r.get("/state", (req, res) => {
+            res.send(this.getState());
+        });
+
+        // The notes are HTML from the editor, the clients get them sanitized
+        const withSanitizedNotes = (s: Slide) => (s.notes
+            ? { ...s, notes: sanitizeNotes(s.notes) }
+            : s);
+        r.get("/slides", (req, res) => {
+            res.send({
+                slides: this.slides.map(withSanitizedNotes),
+                sections: this.showService.data.value?.sections || [],
+            });
+        });
+        // Selects the slide at the index like the view menu, if there is one
+        const stepTo = (
+            getIdx: () => number,
+            message: "viewNextSlide" | "viewPreviousSlide" | "viewFirstSlide" | "viewLastSlide",
+        ) => (req: any, res: express.Response) => {
+            const slide = this.slides[getIdx()];
+            if (!slide) {
+                res.status(409).send({ error: "There is no such slide." });
+                return;
+            }
+            if (!this.canSelect(req.mobile, slide.id)) {
+                res.status(403).send({ error: "Presenters can only move within the current section.", forbidden: true });
+                return;
+            }
+            this.act(res, () => this.showService.messages.next(message));
+        };
+        const relativeIdx = (offset: number) => () => (this.currentSlideIdx === undefined
+            ? -1
+            : this.currentSlideIdx + offset);
+        r.post("/slides/next", presenter, stepTo(relativeIdx(1), "viewNextSlide"));
+        r.post("/slides/previous", presenter, stepTo(relativeIdx(-1), "viewPreviousSlide"));
+        r.post("/slides/first", operator, stepTo(() => 0, "viewFirstSlide"));
+        r.post("/slides/last", operator, stepTo(() => this.slides.length - 1, "viewLastSlide"));
+        r.post("/slides/text", operator, (req, res) => {
+            this.act(res, () => this.showService.messages.next("newTextSlide"));
+        });
+        r.use("/slides/:id", (req: any, res, next) => {
+            req.slide = this.slides.find((s) => s.id == req.params.id);
+            if (!req.slide) {
+                res.status(404).send({ error: "There is no slide with this id." });
+                return;
+            }
+            next();
+        });
+        r.get("/slides/:id", (req: any, res) => {
+            res.send(withSanitizedNotes(req.slide));
+        });
+        r.patch("/slides/:id", operator, (req: any, res) => {
+            const error = this.checkSlideProperties(req.slide, req.jsonBody);
+            if (error) {
+                res.status(400).send({ error });
+                return;
+            }
+            const merged = this.mergeSlideProperties(req.slide, req.jsonBody);
+            const properties: Partial<Slide> = Object.keys(req.jsonBody)
+                .reduce((p, key) => ({ ...p, [key]: merged[key] }), {});
+            if (properties.notes) {
+                properties.notes = sanitizeNotes(properties.notes);
+            }
+            this.act(res, () => this.slideUpdated.next({ id: req.slide.id, properties }));
+        });
+        r.delete("/slides/:id", operator, (req: any, res) => {
+            this.act(res, () => this.slideRemoved.next(req.slide.id));
+        });
+        r.post("/slides/:id/select", presenter, (req: any, res) => {
+            if (!this.canSelect(req.mobile, req.slide.id)) {
+                res.status(403).send({ error: "Presenters can only move within the current section.", forbidden: true });
+                return;
+            }
+            this.act(res, () => this.slideSelected.next(req.slide.id));
+        });
+
+        r.post("/take", presenter, (req: any, res) => {
+            if (!this.studioModeService.enabled.value) {
+                res.status(409).send({ error: "Take is only available in studio mode." });
+                return;
+            }
+            if (!this.canTake(req.mobile)) {
+                res.status(403).send({ error: "Presenters can only take slides of the current section.", forbidden: true });
+                return;
+            }
+            this.act(res, () => this.showService.messages.next("take"));
+        });
+
+        r.use("/media", (req, res, next) => {
+            if (!this.mediaService.progress.value) {
+                res.status(409).send({ error: "There is no video live." });
+                return;
+            }
+            next();
+        });
+        r.get("/media", (req, res) => {
+            res.send(this.mediaService.progress.value);
+        });
+        r.post("/media/play", operator, (req, res) => {
+            this.act(res, () => this.mediaService.play());
+        });
+        r.post("/media/pause", operator, (req, res) => {
+            this.act(res, () => this.mediaService.pause());
+        });
+        r.post("/media/restart", operator, (req, res) => {
+            this.act(res, () => this.mediaService.restart());
+        });
+        r.post("/media/seek", operator, (req: any, res) => {
+            if (typeof req.jsonBody?.time !== "number" || req.jsonBody.time < 0) {
+                res.status(400).send({ error: "time must be the position in milliseconds." });
+                return;
+            }
+            this.act(res, () => this.mediaService.seek(req.jsonBody.time));
+        });
+        r.put("/media/volume", operator, (req: any, res) => {
+            const volume = req.jsonBody?.volume;
+            if (typeof volume !== "number" || volume < 0 || volume > 1) {
+                res.status(400).send({ error: "volume must be between 0 and 1." });
+                return;
+            }
+            this.act(res, () => this.mediaService.setVolume(volume));
+        });
+
+        r.get("/audio", (req, res) => {
+            res.send({
+                ...this.audioTrackService.audioTrack.value,
+                playing: this.audioTrackService.state.value || null,
+            });
+        });
+        r.post("/audio/play", operator, (req: any, res) => {
+            const idx = req.jsonBody?.idx;
+            if (idx !== undefined && !this.audioTrackService.audioTrack.value.items[idx]) {
+                res.status(404).send({ error: "There is no audio track item with this index." });
+                return;
+            }
+            this.act(res, () => this.audioTrackService.play(idx));
+        });
+        r.post("/audio/stop", operator, (req, res) => {
+            this.act(res, () => this.audioTrackService.stop());
+        });
+        r.post("/audio/next", operator, (req, res) => {
+            this.act(res, () => this.audioTrackService.next());
+        });
+        r.post("/audio/previous", operator, (req, res) => {
+            this.act(res, () => this.audioTrackService.previous());
+        });
+        r.put("/audio/volume", operator, (req: any, res) => {
+            const volume = req.jsonBody?.volume;
+            if (typeof volume !== "number" || volume < 0 || volume > 1) {
+                res.status(400).send({ error: "volume must be between 0 and 1." });
+                return;
+            }
+            this.act(res, () => {
+                this.audioTrackService.setVolume(volume);
+                this.audioTrackService.save();
+            });
+        });
+
+        r.post("/sections", operator, (req, res) => {
+            this.act(res, () => this.showService.messages.next("addSection"));
+        });
+        r.post("/sections/next", operator, (req, res) => {
+            this.act(res, () => this.showService.messages.next("viewNextSection"));
+        });
+        r.post("/sections/previous", operator, (req, res) => {
+            this.act(res, () => this.showService.messages.next("viewPreviousSection"));
+        });
+        r.post("/sections/:idx/select", operator, (req, res) => {
+            const idx = Number(req.params.idx);
+            if (!(this.showService.data.value?.sections || [])[idx]) {
+                res.status(404).send({ error: "There is no section with this index." });
+                return;
+            }
+            this.act(res, () => this.showService.goToSection.next(idx));
+        });
+
+        r.post("/scenes/:scene", operator, (req, res) => {
+            const { scene } = req.params;
+            if (!DEFAULT_SCENES.includes(scene)) {
+                res.status(404).send({ error: `The scene must be one of ${DEFAULT_SCENES.join(", ")}.` });
+                return;
+            }
+            this.act(res, () => this.defaultScenesService.transitionTo(
+                scene as "black" | "logo" | "customLogo",
+            ));
+        });
+
+        r.put("/projector", operator, (req: any, res) => {
+            if (typeof req.jsonBody?.enabled !== "boolean") {
+                res.status(400).send({ error: "enabled must be true or false." });
+                return;
+            }
+            this.act(res, () => this.projectorService.setEnabled(req.jsonBody.enabled));
+        });
+        r.put("/studio-mode", operator, (req: any, res) => {
+            if (typeof req.jsonBody?.enabled !== "boolean") {
+                res.status(400).send({ error: "enabled must be true or false." });
+                return;
+            }
+            this.act(res, () => {
+                if (req.jsonBody.enabled != this.studioModeService.enabled.value) {
+                    this.studioModeService.toggle();
+                }
+            });
+        });
+
+        // Actions which would open a dialog on the computer are refused
+        r.get("/show/recent", operator, (req, res) => {
+            res.send(this.recentShowsService.get());
+        });
+        r.post("/show/new", operator, (req, res) => {
+            if (this.showService.hasUnsavedChanges) {
+                res.status(409).send({ error: "The show has unsaved changes." });
+                return;
+            }
+            this.act(res, () => this.showService.new());
+        });
+        r.post("/show/open", operator, (req: any, res) => {
+            if (!this.recentShowsService.get().includes(req.jsonBody?.file)) {
+                res.status(404).send({ error: "Only recent shows can be opened." });
+                return;
+            }
+            if (this.showService.hasUnsavedChanges) {
+                res.status(409).send({ error: "The show has unsaved changes." });
+                return;
+            }
+            this.act(res, () => this.showService.open(req.jsonBody.file));
+        });
+        r.post("/show/save", operator, (req, res) => {
+            if (!this.showService.hasShowFile) {
+                res.status(409).send({ error: "The show has not been saved yet, it has to be saved on the computer first." });
+                return;
+            }
+            this.act(res, () => this.showService.save());
+        });
+        r.post("/show/undo", operator, (req, res) => {
+            if (!this.showService.historyChanged.value.canUndo) {
+                res.status(409).send({ error: "There is nothing to undo." });
+                return;
+            }
+            this.act(res, () => this.showService.undo());
+        });
+        r.post("/show/redo", operator, (req, res) => {
+            if (!this.showService.historyChanged.value.canRedo) {
+                res.status(409).send({ error: "There is nothing to redo." });
+                return;
+            }
+            this.act(res, () => this.showService.redo());
+        });
+
+        r.use((req, res) => {
+            res.status(404).send({ error: `${req.method} ${req.path} is not part of the API version ${REMOTE_API_VERSION}.` });
+        });
+        return r;
+    }
+}
@@ -3,19 +3,42 @@ import { remote } from "electron";
 import * as fs from "fs";
 import { BehaviorSubject, Subject } from "rxjs";
 import * as path from "path";
+import * as archiver from "archiver";
+import * as extract from "extract-zip";
 import { hasDecorator } from "../_helpers/hasDecorator";
-import { filters } from "../_globals/agshowFileFilter";
+import { filters, bundleFilters } from "../_globals/agshowFileFilter";
 import { RecentShowsService } from "./recent-shows.service";
+import { ThumbnailService } from "./thumbnail.service";
+import { SettingsService } from "./settings.service";
 import { Slide } from "../_classes/slide";
+import { Section } from "../_classes/section";
+import { Overlay } from "../_classes/overlay";
+import { AudioTrack } from "../_classes/audioTrack";
+import { ShowFile } from "../_classes/showFile";
+import { TransitionOptions } from "../_classes/transitionOptions";
+import { SHOW_FORMAT_VERSION, showFileSchema } from "../_globals/showFileSchema";
+import { migrateShowFile } from "../_helpers/migrateShowFile";
+import { validateSchema } from "../_helpers/validateSchema";
+import { isEmbeddedText } from "../_helpers/isEmbeddedText";
 
 @Injectable({
     providedIn: "root",
 })
 export class ShowService {
     private unsavedChanges = false;
-    public messages: Subject<"importSlides" | "removeSlide" | "renameSlide" | "slideProperties" | "viewFirstSlide" | "viewLastSlide" | "viewNextSlide" | "viewPreviousSlide"> = new Subject();
+    public messages: Subject<"addSection" | "importSlides" | "newTextSlide" | "relinkMissingMedia" | "removeSlide" | "renameSlide" | "slideProperties" | "take" | "viewFirstSlide" | "viewLastSlide" | "viewNextSection" | "viewNextSlide" | "viewPreviousSection" | "viewPreviousSlide"> = new Subject();
     public slideIdxChanged: Subject<{ idx: number; length: number }> = new Subject();
+    public sectionsChanged: Subject<Section[]> = new Subject();
+    // Emits the keys changed by edits, loading a show or undo are emitted through data
+    public dataChanged: Subject<string[]> = new Subject();
+    public goToSection: Subject<number> = new Subject();
     public data: BehaviorSubject<any> = new BehaviorSubject<any>({});
+    // Emits after the data of an opened show file, but not of undo and redo
+    public fileLoaded: Subject<void> = new Subject();
+    public historyChanged = new BehaviorSubject<{ canUndo: boolean; canRedo: boolean }>({
+        canUndo: false,
+        canRedo: false,
+    });
     public addVideos(videos: string[]) {
         remote.ipcMain.emit("add-videos", videos);
     }
@@ -24,10 +47,19 @@ export class ShowService {
     private pshowTitle = "Unnamed";
 
     private pdata: any = {};
+    private committedData: { [key: string]: string } = {};
+    // Each history step contains the previous data of all keys changed together
+    private undoStack: { key: string; data: string }[][] = [];
+    private redoStack: { key: string; data: string }[][] = [];
+    private readonly maxHistoryLength = 100;
 
     public titleData: BehaviorSubject<{ title: string; hasUnsavedChanges: boolean }> = new BehaviorSubject({ title: "", hasUnsavedChanges: false });
 
-    constructor(private recentShowsService: RecentShowsService) {
+    constructor(
+        private recentShowsService: RecentShowsService,
+        private thumbnailService: ThumbnailService,
+        private settingsService: SettingsService,
+    ) {
         this.updateTitle();
     }
 
@@ -39,19 +71,105 @@ export class ShowService {
         return this.pshowTitle;
     }
 
+    // False for new shows, saving them opens the save as dialog
+    public get hasShowFile() {
+        return !!this.currentShowFile;
+    }
+
     public setData(key, data) {
+        this.setMultipleData({ [key]: data });
+    }
+
+    // Changes all given keys in one step, so they are undone together
+    public setMultipleData(values: { [key: string]: any }) {
+        const step: { key: string; data: string }[] = [];
+        for (const [key, value] of Object.entries(values)) {
+            const data = this.filterData(value);
+            const serialized = JSON.stringify(data);
+            if (serialized !== this.committedData[key]) {
+                step.push({ key, data: this.committedData[key] });
+                this.committedData[key] = serialized;
+                this.pdata[key] = data;
+            }
+        }
+        if (!step.length) {
+            return;
+        }
+        this.undoStack.push(step);
+        if (this.undoStack.length > this.maxHistoryLength) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+        this.setHasUnsavedChanges(true);
+        this.updateHistory();
+        this.dataChanged.next(step.map((entry) => entry.key));
+    }
+
+    public undo() {
+        this.restoreData(this.undoStack, this.redoStack);
+    }
+
+    public redo() {
+        this.restoreData(this.redoStack, this.undoStack);
+    }
+
+    private restoreData(
+        from: { key: string; data: string }[][], to: { key: string; data: string }[][],
+    ) {
+        const step = from.pop();
+        if (!step) {
+            return;
+        }
+        to.push(step.map((entry) => ({ key: entry.key, data: this.committedData[entry.key] })));
+        for (const entry of step) {
+            this.committedData[entry.key] = entry.data;
+            let data = entry.data === undefined ? undefined : JSON.parse(entry.data);
+            if (entry.key == "slides" && data) {
+                data = data.map((slide) => Object.assign(new Slide(), slide));
+            } else if (entry.key == "sections" && data) {
+                data = data.map((section) => Object.assign(new Section(), section));
+            } else if (entry.key == "overlays" && data) {
+                data = data.map((overlay) => Object.assign(new Overlay(), overlay));
+            } else if (entry.key == "audioTrack" && data) {
+                data = Object.assign(new AudioTrack(), data);
+            }
+            this.pdata[entry.key] = data;
+        }
+        this.setHasUnsavedChanges(true);
+        this.updateHistory();
+        this.data.next(this.pdata);
+    }
+
+    private resetHistory() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.committedData = {};
+        for (const [key, data] of Object.entries(this.pdata)) {
+            this.committedData[key] = JSON.stringify(this.filterData(data));
+        }
+        this.updateHistory();
+    }
+
+    private updateHistory() {
+        this.historyChanged.next({
+            canUndo: this.undoStack.length > 0,
+            canRedo: this.redoStack.length > 0,
+        });
+    }
+
+    private filterData(data: any): any {
         if (Array.isArray(data)) {
-            data = data.map((d) => {
+            return data.map((d) => {
                 if (typeof d === "object") {
                     return this.filterSaveProperties(d);
                 }
                 return d;
             });
-        } else if (typeof data === "object") {
-            data = this.filterSaveProperties(data);
         }
-        this.pdata[key] = data;
-        this.setHasUnsavedChanges(true);
+        if (typeof data === "object") {
+            return this.filterSaveProperties(data);
+        }
+        return data;
     }
 
     private filterSaveProperties(data: any): any {
@@ -81,6 +199,7 @@ export class ShowService {
         }
         this.titleData.next({ title: "Unnamed", hasUnsavedChanges: false });
         this.pdata = {};
+        this.resetHistory();
         this.data.next(this.pdata);
     }
 
@@ -109,6 +228,241 @@ export class ShowService {
         }
     }
 
+    public async packShow(): Promise<void> {
+        const {
+            slides, overlays, audioTrack, settings,
+        } = this.getShowFileData();
+        if (!slides.length) {
+            // eslint-disable-next-line no-alert
+            alert("There are no slides to pack.");
+            return;
+        }
+        const bundleFile = remote.dialog.showSaveDialogSync({
+            title: "Pack show",
+            filters: bundleFilters,
+            defaultPath: `${path.basename(this.showTitle, ".agvshow")}.agvbundle`,
+        });
+        if (!bundleFile) {
+            return;
+        }
+
+        const output = fs.createWriteStream(bundleFile);
+        const archive = archiver("zip", { zlib: { level: 1 } });
+        const closed = new Promise((resolve, reject) => {
+            output.on("close", resolve);
+            // e.g. a full disk or a folder without write access
+            output.on("error", reject);
+            archive.on("error", reject);
+        });
+        archive.pipe(output);
+
+        const bundledFiles: { [file: string]: string } = {};
+        const usedNames: string[] = [];
+        const missingFiles: string[] = [];
+        const bundledSlides = [];
+        const addToArchive = (filePath: string) => {
+            if (!bundledFiles[filePath]) {
+                const ext = path.extname(filePath);
+                const base = path.basename(filePath, ext);
+                let name = `${base}${ext}`;
+                for (let i = 1; usedNames.includes(name.toLowerCase()); i++) {
+                    name = `${base}-${i}${ext}`;
+                }
+                usedNames.push(name.toLowerCase());
+                bundledFiles[filePath] = `media/${name}`;
+                archive.file(filePath, { name: bundledFiles[filePath] });
+            }
+            return bundledFiles[filePath];
+        };
+        for (const slide of slides) {
+            if (isEmbeddedText(slide)) {
+                bundledSlides.push(slide);
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+            if (!fs.existsSync(slide.filePath)) {
+                missingFiles.push(slide.filePath);
+                bundledSlides.push(slide);
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+            const filePath = addToArchive(slide.filePath);
+            const thumbnail = await this.thumbnailService.ensureThumbnail(slide.filePath)
+                .catch(() => undefined);
+            if (thumbnail && thumbnail != slide.filePath && fs.existsSync(thumbnail)) {
+                archive.file(thumbnail, { name: `thumbnails/${slide.id}.png` });
+            }
+            bundledSlides.push({ ...slide, filePath });
+        }
+        const bundledOverlays = overlays.map((overlay) => {
+            if (!overlay.filePath) {
+                return overlay;
+            }
+            if (!fs.existsSync(overlay.filePath)) {
+                missingFiles.push(overlay.filePath);
+                return overlay;
+            }
+            return { ...overlay, filePath: addToArchive(overlay.filePath) };
+        });
+        // Luma images are usually one of the images shipped with OBS, only other ones are packed
+        const bundleTransition = (transition: TransitionOptions) => {
+            if (!transition) {
+                return transition;
+            }
+            const bundled = { ...transition };
+            for (const key of ["stingerFile", "lumaImage"]) {
+                const file: string = transition[key];
+                if (file && path.isAbsolute(file)) {
+                    if (fs.existsSync(file)) {
+                        bundled[key] = addToArchive(file);
+                    } else {
+                        missingFiles.push(file);
+                    }
+                }
+            }
+            return bundled;
+        };
+        // The default transition is only packed if it needs a file, it is offered when unpacking
+        const defaultTransition = this.settingsService.store.get("defaultTransition");
+        const bundledDefaultTransition = bundleTransition(defaultTransition);
+        const bundledSettings = JSON.stringify(bundledDefaultTransition)
+            != JSON.stringify(defaultTransition)
+            ? { ...settings, defaultTransition: bundledDefaultTransition }
+            : settings;
+        const bundledAudioTrack = audioTrack && {
+            ...audioTrack,
+            items: audioTrack.items.map((item) => {
+                if (!fs.existsSync(item.filePath)) {
+                    missingFiles.push(item.filePath);
+                    return item;
+                }
+                return { ...item, filePath: addToArchive(item.filePath) };
+            }),
+        };
+        archive.append(JSON.stringify({
+            ...this.getShowFileData(),
+            slides: bundledSlides
+                .map((slide) => ({ ...slide, transition: bundleTransition(slide.transition) })),
+            overlays: bundledOverlays,
+            audioTrack: bundledAudioTrack,
+            settings: bundledSettings,
+        }), { name: "show.agvshow" });
+        // errors are reported through closed
+        archive.finalize().catch(() => undefined);
+
+        try {
+            await closed;
+        } catch (e) {
+            // eslint-disable-next-line no-alert
+            alert(`The show couldn't be packed.\n\n${e.message}`);
+            return;
+        }
+        if (missingFiles.length) {
+            // eslint-disable-next-line no-alert
+            alert(`The show was packed, but the following files are missing and were not included:\n\n${[...new Set(missingFiles)].join("\n")}`);
+        }
+    }
+
+    public async openBundle(): Promise<void> {
+        this.ensureNoUnsavedChanges();
+        const bundleFile = remote.dialog.showOpenDialogSync({
+            filters: bundleFilters,
+            title: "Open bundle",
+            properties: ["openFile"],
+        });
+        if (!(bundleFile && bundleFile[0] && fs.existsSync(bundleFile[0]))) {
+            return;
+        }
+        const targetFolder = remote.dialog.showOpenDialogSync({
+            title: "Choose a folder to unpack the show to",
+            properties: ["openDirectory", "createDirectory"],
+        });
+        if (!(targetFolder && targetFolder[0])) {
+            return;
+        }
+        const dir = path.resolve(targetFolder[0]);
+        const bundledShowFile = path.join(dir, "show.agvshow");
+        const showFile = path.join(dir, `${path.basename(bundleFile[0], path.extname(bundleFile[0]))}.agvshow`);
+        let defaultTransition: TransitionOptions;
+        try {
+            await extract(bundleFile[0], { dir });
+            const data = JSON.parse(fs.readFileSync(bundledShowFile).toString());
+            const isBundled = (item) => typeof item.filePath === "string" && item.filePath
+                && !path.isAbsolute(item.filePath);
+            const resolve = (bundledPath: string) => {
+                const filePath = path.join(dir, ...bundledPath.split("/"));
+                if (!filePath.startsWith(dir + path.sep)) {
+                    throw new Error(`The file path "${bundledPath}" points outside of the bundle.`);
+                }
+                return filePath;
+            };
+            // Names of the luma images shipped with OBS are relative as well
+            const resolveTransition = (transition) => {
+                for (const key of ["stingerFile", "lumaImage"]) {
+                    if (typeof transition?.[key] === "string" && transition[key].startsWith("media/")) {
+                        transition[key] = resolve(transition[key]);
+                    }
+                }
+            };
+            if (data.settings?.defaultTransition) {
+                defaultTransition = data.settings.defaultTransition;
+                resolveTransition(defaultTransition);
+                delete data.settings.defaultTransition;
+            }
+            for (const overlay of (Array.isArray(data.overlays) ? data.overlays : [])) {
+                if (isBundled(overlay)) {
+                    overlay.filePath = resolve(overlay.filePath);
+                }
+            }
+            const audioTrackItems = data.audioTrack?.items;
+            for (const item of (Array.isArray(audioTrackItems) ? audioTrackItems : [])) {
+                if (isBundled(item)) {
+                    item.filePath = resolve(item.filePath);
+                }
+            }
+            for (const slide of (Array.isArray(data.slides) ? data.slides : [])) {
+                resolveTransition(slide.transition);
+                if (!isBundled(slide)) {
+                    // eslint-disable-next-line no-continue
+                    continue;
+                }
+                const filePath = resolve(slide.filePath);
+                slide.filePath = filePath;
+                const thumbnail = path.join(dir, "thumbnails", `${slide.id}.png`);
+                if (fs.existsSync(thumbnail)) {
+                    fs.copyFileSync(thumbnail, this.thumbnailService.getThumbnailPath(filePath));
+                }
+            }
+            fs.writeFileSync(showFile, JSON.stringify(data));
+            // a bundle called "show" is unpacked to the same file
+            if (path.resolve(showFile) !== path.resolve(bundledShowFile)) {
+                fs.unlinkSync(bundledShowFile);
+            }
+            fs.rmdirSync(path.join(dir, "thumbnails"), { recursive: true });
+        } catch (e) {
+            // eslint-disable-next-line no-alert
+            alert(`The bundle couldn't be unpacked.\n\n${e.message}`);
+            // eslint-disable-next-line no-console
+            console.log(e);
+            return;
+        }
+        if (defaultTransition) {
+            const choice = remote.dialog.showMessageBoxSync(remote.getCurrentWindow(), {
+                type: "question",
+                title: "Default transition",
+                message: "The default transition of the packed show uses a file from the bundle. Do you want to use it as your default transition?",
+                buttons: ["Use it", "Keep mine"],
+                defaultId: 0,
+                cancelId: 1,
+            });
+            if (choice == 0) {
+                this.settingsService.store.set("defaultTransition", defaultTransition);
+                remote.ipcMain.emit("settings-changed");
+            }
+        }
+        this.loadFile(showFile);
+    }
+
     public askToSaveChanges(win) {
         const choice = remote.dialog.showMessageBoxSync(win,
             {
@@ -124,29 +478,65 @@ export class ShowService {
     }
 
     private loadFile(file) {
+        let data: ShowFile;
         try {
-            this.pdata = JSON.parse(fs.readFileSync(file).toString());
-            const slides: Slide[] = [];
-            for (const slide of this.pdata.slides) {
-                slides.push(Object.assign(new Slide(), slide));
-            }
-            this.pdata.slides = slides;
+            data = migrateShowFile(JSON.parse(fs.readFileSync(file).toString()));
         } catch (e) {
             // eslint-disable-next-line no-alert
-            alert("The file couldn't be opened.");
+            alert(`The file couldn't be opened.${e && e.message ? `\n\n${e.message}` : ""}`);
             // eslint-disable-next-line no-console
             console.log(e);
             return;
         }
+        const errors = validateSchema(data, showFileSchema);
+        if (errors.length) {
+            const shownErrors = errors.slice(0, 10).map((e) => `- ${e.path} ${e.message}`);
+            if (errors.length > shownErrors.length) {
+                shownErrors.push(`... and ${errors.length - shownErrors.length} more`);
+            }
+            // eslint-disable-next-line no-alert
+            alert(`The file couldn't be opened because it is invalid:\n\n${shownErrors.join("\n")}`);
+            return;
+        }
+        data.slides = data.slides.map((slide) => Object.assign(new Slide(), slide));
+        data.sections = data.sections.map((section) => Object.assign(new Section(), section));
+        data.overlays = (data.overlays || [])
+            .map((overlay) => Object.assign(new Overlay(), overlay));
+        if (data.audioTrack) {
+            data.audioTrack = Object.assign(new AudioTrack(), data.audioTrack);
+        }
+        this.pdata = data;
+        this.resetHistory();
         this.currentShowFile = file;
         this.recentShowsService.add(this.currentShowFile);
         this.data.next(this.pdata);
         this.pshowTitle = path.basename(this.currentShowFile);
         this.updateTitle();
+        this.fileLoaded.next();
+    }
+
+    private getShowFileData(): ShowFile {
+        return {
+            ...this.pdata,
+            formatVersion: SHOW_FORMAT_VERSION,
+            slides: (this.pdata.slides || []).map(
+                (slide) => this.filterSaveProperties(Object.assign(new Slide(), slide)),
+            ),
+            sections: (this.pdata.sections || []).map(
+                (section) => this.filterSaveProperties(Object.assign(new Section(), section)),
+            ),
+            overlays: (this.pdata.overlays || []).map(
+                (overlay) => this.filterSaveProperties(Object.assign(new Overlay(), overlay)),
+            ),
+            audioTrack: this.pdata.audioTrack
+                ? this.filterSaveProperties(Object.assign(new AudioTrack(), this.pdata.audioTrack))
+                : undefined,
+            settings: this.pdata.settings || {},
+        };
     }
 
     private writeShowFile() {
-        fs.writeFileSync(this.currentShowFile, JSON.stringify(this.pdata));
+        fs.writeFileSync(this.currentShowFile, JSON.stringify(this.getShowFileData()));
         this.setHasUnsavedChanges(false);
         this.pshowTitle = path.basename(this.currentShowFile);
         this.updateTitle();
@@ -0,0 +1,19 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { SettingsService } from "./settings.service";
+
+@Injectable({
+    providedIn: "root",
+})
+export class StudioModeService {
+    public enabled: BehaviorSubject<boolean>;
+
+    constructor(private settingsService: SettingsService) {
+        this.enabled = new BehaviorSubject<boolean>(this.settingsService.store.get("studioMode"));
+    }
+
+    public toggle() {
+        this.settingsService.store.set("studioMode", !this.enabled.value);
+        this.enabled.next(!this.enabled.value);
+    }
+}
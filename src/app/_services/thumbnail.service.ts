@@ -20,8 +20,7 @@ export class ThumbnailService {
     }
 
     public ensureThumbnail(file: string): Promise<string> {
-        const hash = crypto.createHash("md5").update(file).digest("hex");
-        const thumbnailPath = path.join(this.thumbnailPath, `${hash}.png`);
+        const thumbnailPath = this.getThumbnailPath(file);
         if (this.ofType(file, "browser")) {
             return new Promise<string>((resolve, reject) => {
                 let win = new remote.BrowserWindow({
@@ -62,6 +61,11 @@ export class ThumbnailService {
         });
     }
 
+    public getThumbnailPath(file: string): string {
+        const hash = crypto.createHash("md5").update(file).digest("hex");
+        return path.join(this.thumbnailPath, `${hash}.png`);
+    }
+
     private ofType(file: any, type: SlideType) {
         return supportedFiles.find((f) => f.slideType == type).extensions.includes(path.extname(file).replace(".", ""));
     }
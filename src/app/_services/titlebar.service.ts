@@ -5,7 +5,14 @@ import * as mousetrap from "mousetrap";
 import { ShowService } from "./show.service";
 import { RecentShowsService } from "./recent-shows.service";
 import { DefaultScenesService } from "./default-scenes.service";
+import { StudioModeService } from "./studio-mode.service";
+import { CueSheetService } from "./cue-sheet.service";
+import { PresenterService } from "./presenter.service";
+import { KeymapService } from "./keymap.service";
+import { CueService } from "./cue.service";
 import { pkginfo } from "../_helpers/packageInfo";
+import { Section } from "../_classes/section";
+import { Slide } from "../_classes/slide";
 
 @Injectable({
     providedIn: "root",
@@ -14,10 +21,17 @@ export class TitlebarService {
     titlebar: customTitlebar.Titlebar;
     currentSlideIdx: number;
     slidesLength: number;
+    sections: Section[] = [];
+    private menuTemplate: any[] = [];
     constructor(
         private showService: ShowService,
         private recentShowsService: RecentShowsService,
         private defaultScenesService: DefaultScenesService,
+        private studioModeService: StudioModeService,
+        private cueSheetService: CueSheetService,
+        private presenterService: PresenterService,
+        private keymapService: KeymapService,
+        private cueService: CueService,
     ) {
         const menu = this.getMenu();
         this.titlebar = new customTitlebar.Titlebar({
@@ -32,6 +46,28 @@ export class TitlebarService {
             this.slidesLength = length;
             this.titlebar.updateMenu(this.getMenu());
         });
+        this.showService.sectionsChanged.subscribe((sections) => {
+            this.sections = sections;
+            this.titlebar.updateMenu(this.getMenu());
+        });
+        this.showService.historyChanged.subscribe(() => {
+            this.titlebar.updateMenu(this.getMenu());
+        });
+        this.studioModeService.enabled.subscribe(() => {
+            this.titlebar.updateMenu(this.getMenu());
+        });
+        this.presenterService.enabled.subscribe(() => {
+            this.titlebar.updateMenu(this.getMenu());
+        });
+        this.keymapService.changed.subscribe(() => {
+            this.titlebar.updateMenu(this.getMenu());
+        });
+        this.showService.data.subscribe(() => this.bindShortcuts());
+        this.showService.dataChanged.subscribe((keys) => {
+            if (keys.includes("slides")) {
+                this.bindShortcuts();
+            }
+        });
     }
 
     private getMenu() {
@@ -42,7 +78,7 @@ export class TitlebarService {
                 submenu: [
                     {
                         label: "New file",
-                        accelerator: "Ctrl+N",
+                        ...this.shortcut("newFile"),
                         click: () => this.showService.new(),
                     },
                     {
@@ -50,7 +86,7 @@ export class TitlebarService {
                     },
                     {
                         label: "Open file",
-                        accelerator: "Ctrl+O",
+                        ...this.shortcut("openFile"),
                         click: () => this.showService.open(),
                     },
                     {
@@ -71,44 +107,94 @@ export class TitlebarService {
                     },
                     {
                         label: "Save",
-                        accelerator: "Ctrl+S",
+                        ...this.shortcut("save"),
                         click: () => this.showService.save(),
                     },
                     {
                         label: "Save as...",
-                        accelerator: "Ctrl+Shift+S",
+                        ...this.shortcut("saveAs"),
                         click: () => this.showService.saveAs(),
                     },
                     {
                         type: "separator",
                     },
+                    {
+                        label: "Pack show...",
+                        ...this.shortcut("packShow"),
+                        click: () => this.showService.packShow(),
+                    },
+                    {
+                        label: "Open bundle...",
+                        ...this.shortcut("openBundle"),
+                        click: () => this.showService.openBundle(),
+                    },
+                    {
+                        label: "Export cue sheet...",
+                        ...this.shortcut("exportCueSheet"),
+                        click: () => this.cueSheetService.export(),
+                    },
+                    {
+                        type: "separator",
+                    },
                     {
                         label: "Quit",
-                        accelerator: "Ctrl+Q",
+                        ...this.shortcut("quit"),
                         click: () => remote.getCurrentWindow().close(),
                     },
                 ],
             },
+            {
+                label: "Edit",
+                submenu: [
+                    {
+                        label: "Undo",
+                        ...this.shortcut("undo"),
+                        enabled: this.showService.historyChanged.value.canUndo,
+                        click: () => this.showService.undo(),
+                    },
+                    {
+                        label: "Redo",
+                        ...this.shortcut("redo"),
+                        enabled: this.showService.historyChanged.value.canRedo,
+                        click: () => this.showService.redo(),
+                    },
+                ],
+            },
             {
                 label: "Slide",
                 submenu: [
                     {
                         label: "Import slides...",
-                        accelerator: "Ctrl+I",
+                        ...this.shortcut("importSlides"),
                         click: () => this.showService.messages.next("importSlides"),
                     },
+                    {
+                        label: "New text slide",
+                        ...this.shortcut("newTextSlide"),
+                        click: () => this.showService.messages.next("newTextSlide"),
+                    },
+                    {
+                        label: "Relink missing media...",
+                        ...this.shortcut("relinkMissingMedia"),
+                        click: () => this.showService.messages.next("relinkMissingMedia"),
+                    },
+                    {
+                        label: "Add section",
+                        ...this.shortcut("addSection"),
+                        click: () => this.showService.messages.next("addSection"),
+                    },
                     {
                         type: "separator",
                     },
                     {
                         label: "Rename slide",
-                        accelerator: "F2",
+                        ...this.shortcut("renameSlide"),
                         enabled: this.currentSlideIdx !== undefined,
                         click: () => this.showService.messages.next("renameSlide"),
                     },
                     {
                         label: "Remove slide",
-                        accelerator: "Del",
+                        ...this.shortcut("removeSlide"),
                         enabled: this.currentSlideIdx !== undefined,
                         click: () => this.showService.messages.next("removeSlide"),
                     },
@@ -117,7 +203,7 @@ export class TitlebarService {
                     },
                     {
                         label: "Slide properties",
-                        accelerator: "Strg+W",
+                        ...this.shortcut("slideProperties"),
                         enabled: this.currentSlideIdx !== undefined,
                         click: () => this.showService.messages.next("slideProperties"),
                     },
@@ -126,9 +212,33 @@ export class TitlebarService {
             {
                 label: "View",
                 submenu: [
+                    {
+                        label: "Studio mode",
+                        type: "checkbox",
+                        ...this.shortcut("studioMode"),
+                        checked: this.studioModeService.enabled.value,
+                        click: () => this.studioModeService.toggle(),
+                    },
+                    {
+                        label: "Presenter monitor",
+                        type: "checkbox",
+                        ...this.shortcut("presenterMonitor"),
+                        checked: this.presenterService.enabled.value,
+                        click: () => this.presenterService.toggle(),
+                    },
+                    {
+                        label: "Take",
+                        ...this.shortcut("take"),
+                        enabled: this.studioModeService.enabled.value
+                            && this.currentSlideIdx !== undefined,
+                        click: () => this.showService.messages.next("take"),
+                    },
+                    {
+                        type: "separator",
+                    },
                     {
                         label: "Next slide",
-                        accelerator: "Right",
+                        ...this.shortcut("nextSlide"),
                         enabled: this.currentSlideIdx !== undefined
                             && this.currentSlideIdx + 1 < this.slidesLength
                             && this.slidesLength > 1,
@@ -136,7 +246,7 @@ export class TitlebarService {
                     },
                     {
                         label: "Previous slide",
-                        accelerator: "Left",
+                        ...this.shortcut("previousSlide"),
                         enabled: this.currentSlideIdx !== undefined
                             && this.currentSlideIdx - 1 >= 0
                             && this.slidesLength > 1,
@@ -145,16 +255,42 @@ export class TitlebarService {
                     {
                         type: "separator",
                     },
+                    {
+                        label: "Next section",
+                        ...this.shortcut("nextSection"),
+                        enabled: this.slidesLength > 0,
+                        click: () => this.showService.messages.next("viewNextSection"),
+                    },
+                    {
+                        label: "Previous section",
+                        ...this.shortcut("previousSection"),
+                        enabled: this.slidesLength > 0,
+                        click: () => this.showService.messages.next("viewPreviousSection"),
+                    },
+                    {
+                        label: "Go to section",
+                        submenu: this.sections.length ? this.sections.map((s, idx) => ({
+                            label: s.name,
+                            ...(idx < 9 ? this.shortcut(`section${idx + 1}`) : {}),
+                            click: () => this.showService.goToSection.next(idx),
+                        })) : [{
+                            label: "No sections",
+                            enabled: false,
+                        }],
+                    },
+                    {
+                        type: "separator",
+                    },
                     {
                         label: "First slide",
-                        accelerator: "F",
+                        ...this.shortcut("firstSlide"),
                         enabled: this.slidesLength > 0
                             && this.currentSlideIdx != 0,
                         click: () => this.showService.messages.next("viewFirstSlide"),
                     },
                     {
                         label: "Last slide",
-                        accelerator: "L",
+                        ...this.shortcut("lastSlide"),
                         enabled: this.slidesLength > 0
                             && this.currentSlideIdx != this.slidesLength - 1,
                         click: () => this.showService.messages.next("viewLastSlide"),
@@ -164,12 +300,12 @@ export class TitlebarService {
                     },
                     {
                         label: "Custom logo",
-                        accelerator: "F2",
+                        ...this.shortcut("customLogo"),
                         click: () => this.defaultScenesService.transitionTo("customLogo"),
                     },
                     {
                         label: "Blackout",
-                        accelerator: "F1",
+                        ...this.shortcut("blackout"),
                         click: () => this.defaultScenesService.transitionTo("black"),
                     },
                     {
@@ -177,7 +313,7 @@ export class TitlebarService {
                     },
                     {
                         label: "AGView logo",
-                        accelerator: "F4",
+                        ...this.shortcut("logo"),
                         click: () => this.defaultScenesService.transitionTo("logo"),
                     },
                 ],
@@ -209,17 +345,45 @@ export class TitlebarService {
         ];
         const menu = remote.Menu.buildFromTemplate(menuTemplate);
 
-        // set shortcuts
-        for (const m of menuTemplate) {
-            for (const entry of m.submenu) {
+        this.menuTemplate = menuTemplate;
+        this.bindShortcuts();
+
+        return menu;
+    }
+
+    private shortcut(commandId: string) {
+        const [accelerator, ...additionalAccelerators] = this.keymapService.getShortcuts(commandId);
+        return { accelerator, additionalAccelerators };
+    }
+
+    // The titlebar menu has no accelerators of its own, mousetrap triggers the entries
+    // and the slide hotkeys
+    private bindShortcuts() {
+        mousetrap.reset();
+        const bindEntries = (entries: any[]) => {
+            for (const entry of entries) {
                 if (entry.accelerator) {
-                    // remote.globalShortcut.register(entry.accelerator, () => entry.click());
-                    mousetrap.bind(entry.accelerator.toLowerCase(), () => entry.click());
+                    mousetrap.bind(
+                        [entry.accelerator, ...(entry.additionalAccelerators || [])]
+                            .map((a) => a.toLowerCase()),
+                        () => entry.click(),
+                    );
+                }
+                if (entry.submenu) {
+                    bindEntries(entry.submenu);
                 }
             }
+        };
+        for (const m of this.menuTemplate) {
+            bindEntries(m.submenu);
+        }
+        const slides: Slide[] = this.showService.data.value?.slides || [];
+        for (const slide of slides.filter((s) => s.hotkey)) {
+            mousetrap.bind(
+                slide.hotkey.toLowerCase(),
+                () => this.cueService.goToSlide.next(slide.id),
+            );
         }
-
-        return menu;
     }
 
     public setTitle(t: string) {
@@ -20,6 +20,15 @@ import { HomeComponent } from "./_components/home/home.component";
 import { PreviewComponent } from "./_components/preview/preview.component";
 import { SettingsComponent } from "./_components/settings/settings.component";
 import { StatusbarComponent } from "./_components/statusbar/statusbar.component";
+import { TransitionOptionsComponent } from "./_components/transition-options/transition-options.component";
+import { TextOptionsComponent } from "./_components/text-options/text-options.component";
+import { NotesEditorComponent } from "./_components/notes-editor/notes-editor.component";
+import { MediaControlsComponent } from "./_components/media-controls/media-controls.component";
+import { MidiMappingsComponent } from "./_components/midi-mappings/midi-mappings.component";
+import { KeymapEditorComponent } from "./_components/keymap-editor/keymap-editor.component";
+import { AudioTrackComponent } from "./_components/audio-track/audio-track.component";
+import { AudioMixerComponent } from "./_components/audio-mixer/audio-mixer.component";
+import { OverlaysComponent } from "./_components/overlays/overlays.component";
 
 // AoT requires an exported function for factories
 export function HttpLoaderFactory(http: HttpClient): TranslateHttpLoader {
@@ -33,6 +42,15 @@ export function HttpLoaderFactory(http: HttpClient): TranslateHttpLoader {
         PreviewComponent,
         SettingsComponent,
         StatusbarComponent,
+        TransitionOptionsComponent,
+        TextOptionsComponent,
+        NotesEditorComponent,
+        MediaControlsComponent,
+        MidiMappingsComponent,
+        KeymapEditorComponent,
+        AudioTrackComponent,
+        AudioMixerComponent,
+        OverlaysComponent,
     ],
     imports: [
         BrowserModule,
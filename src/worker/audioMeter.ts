@@ -0,0 +1,56 @@
+import * as osn from "obs-studio-node";
+import { MIN_AUDIO_LEVEL } from "../app/_classes/audioLevels";
+
+/**
+ * Measures the peak levels of one source at a time, e.g. the live video.
+ */
+export class AudioMeter {
+    private volmeter: osn.IVolmeter;
+    private callback: osn.ICallbackData;
+    private source: osn.ISource;
+    // Highest peak per channel since the levels were read
+    private peak: number[] = [];
+
+    constructor() {
+        this.volmeter = osn.VolmeterFactory.create(osn.EFaderType.IEC);
+        this.volmeter.updateInterval = 50;
+        this.callback = this.volmeter.addCallback((magnitude: number[], peak: number[]) => {
+            this.peak = peak.map((p, idx) => Math.max(p, this.peak[idx] ?? MIN_AUDIO_LEVEL));
+        });
+    }
+
+    public attach(source: osn.ISource) {
+        if (source === this.source) {
+            return;
+        }
+        this.detach();
+        if (source) {
+            this.volmeter.attach(source);
+            this.source = source;
+        }
+    }
+
+    public detach() {
+        if (this.source) {
+            this.volmeter.detach();
+            this.source = undefined;
+        }
+        this.peak = [];
+    }
+
+    public read(): number[] {
+        if (!this.source) {
+            return [];
+        }
+        // silence is reported as -Infinity
+        const levels = this.peak.map((p) => Math.max(p, MIN_AUDIO_LEVEL));
+        this.peak = [];
+        return levels;
+    }
+
+    public release() {
+        this.detach();
+        this.volmeter.removeCallback(this.callback);
+        this.volmeter.destroy();
+    }
+}
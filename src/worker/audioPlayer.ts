@@ -0,0 +1,304 @@
+/* eslint-disable no-console */
+import * as osn from "obs-studio-node";
+import * as fs from "fs";
+import { Subject } from "rxjs";
+import { Slide } from "../app/_classes/slide";
+import {
+    AudioTrack, AudioTrackAction, AudioTrackItem, AudioTrackState,
+} from "../app/_classes/audioTrack";
+import { AudioMeter } from "./audioMeter";
+
+const AUDIO_SCENE_ID = "AUDIOSCENE";
+const FADE_INTERVAL = 1000 / 30;
+const DUCKING_DURATION = 500;
+const MEDIA_STATE_ENDED = 6; // OBS_MEDIA_STATE_ENDED
+
+type PlayingItem = {
+    item: AudioTrackItem;
+    slideId?: string;
+    input: osn.IInput;
+    sceneItem: osn.ISceneItem;
+    // The volume of audio slides, 0 when they are muted
+    itemVolume: number;
+    // Between 0 and 1, changed by fading in and out
+    gain: number;
+    fadeTimer?: NodeJS.Timeout;
+};
+
+// Calls step with the values from "from" to "to" over the duration
+function animate(
+    from: number, to: number, duration: number,
+    step: (value: number) => void, done?: () => void,
+): NodeJS.Timeout {
+    const start = Date.now();
+    let timer: NodeJS.Timeout;
+    const update = () => {
+        const progress = duration > 0 ? Math.min((Date.now() - start) / duration, 1) : 1;
+        step(from + (to - from) * progress);
+        if (progress >= 1) {
+            clearInterval(timer);
+            if (done) {
+                done();
+            }
+        }
+    };
+    timer = setInterval(update, FADE_INTERVAL);
+    update();
+    return timer;
+}
+
+/**
+ * Plays the background music and the audio slides in a scene on its own output channel,
+ * so they keep playing when the program transitions to another slide.
+ * The previous item fades out while the next one fades in.
+ */
+export class AudioPlayer {
+    public state: Subject<AudioTrackState> = new Subject();
+    // Emits the ID of audio slides which are played once when they ended
+    public ended: Subject<string> = new Subject();
+    private scene: osn.IScene;
+    private track = new AudioTrack();
+    private current: PlayingItem;
+    // Items which are fading out, they are released afterwards
+    private fadingOut: PlayingItem[] = [];
+    // Index in the playlist, undefined while an audio slide or nothing is playing
+    private playlistIdx: number;
+    private ducked = false;
+    // 0 when not ducked, 1 when fully ducked
+    private duckProgress = 0;
+    private duckTimer: NodeJS.Timeout;
+    private inputCount = 0;
+    private watcher: NodeJS.Timeout;
+    private masterVolume = 1;
+    private meter = new AudioMeter();
+
+    constructor(channel: number) {
+        this.scene = osn.SceneFactory.create(AUDIO_SCENE_ID);
+        osn.Global.setOutputSource(channel, this.scene);
+        this.watcher = setInterval(() => this.update(), 200);
+    }
+
+    public setTrack(track: AudioTrack) {
+        this.track = { ...new AudioTrack(), ...track };
+        if (this.playlistIdx !== undefined) {
+            const idx = this.track.items.findIndex((i) => i.id == this.current?.item.id);
+            // the next item is the first one when the playing item was removed
+            this.playlistIdx = idx > -1 ? idx : -1;
+        }
+        this.updateVolumes();
+    }
+
+    public control(action: AudioTrackAction, value?: number) {
+        switch (action) {
+        case "play":
+            this.play(value);
+            break;
+        case "stop":
+            this.stop();
+            break;
+        case "next":
+            this.playItem((this.playlistIdx ?? -1) + 1, 1);
+            break;
+        case "previous":
+            // the first item is played again when the playlist doesn't loop
+            this.playItem(Math.max((this.playlistIdx ?? 0) - 1, this.track.loop ? -1 : 0), -1);
+            break;
+        case "volume":
+            this.track.volume = Math.max(0, Math.min(value, 1));
+            this.updateVolumes();
+            break;
+        default:
+            break;
+        }
+    }
+
+    public playSlide(slide: Slide) {
+        this.playlistIdx = undefined;
+        const item = { id: slide.id, name: slide.name, filePath: slide.filePath };
+        this.start(item, slide.cue.loop, slide.id, this.getSlideVolume(slide));
+    }
+
+    // Applies the volume of an audio slide while it is playing
+    public updateSlide(slide: Slide) {
+        const playing = [this.current, ...this.fadingOut].find((p) => p?.slideId == slide.id);
+        if (playing) {
+            playing.itemVolume = this.getSlideVolume(slide);
+            this.updateVolume(playing);
+        }
+    }
+
+    public setMasterVolume(volume: number) {
+        this.masterVolume = volume;
+        this.updateVolumes();
+    }
+
+    // Peak levels of the playing item since they were read the last time
+    public getLevels(): number[] {
+        return this.meter.read();
+    }
+
+    // Lowers the volume while a video with audio is live, if ducking is enabled
+    public setDucked(ducked: boolean) {
+        if (this.ducked == ducked) {
+            return;
+        }
+        this.ducked = ducked;
+        clearInterval(this.duckTimer);
+        this.duckTimer = animate(this.duckProgress, ducked ? 1 : 0, DUCKING_DURATION, (value) => {
+            this.duckProgress = value;
+            this.updateVolumes();
+        });
+    }
+
+    public release() {
+        clearInterval(this.watcher);
+        clearInterval(this.duckTimer);
+        this.meter.release();
+        for (const playing of [this.current, ...this.fadingOut].filter((p) => p)) {
+            this.releaseItem(playing);
+        }
+        this.current = undefined;
+        this.fadingOut = [];
+    }
+
+    // Without an index, the playlist is continued if it isn't playing yet
+    private play(idx?: number) {
+        if (idx === undefined) {
+            if (this.current && this.playlistIdx !== undefined) {
+                return;
+            }
+            this.playItem(Math.max(this.playlistIdx ?? 0, 0), 1);
+        } else {
+            this.playItem(idx, 1);
+        }
+    }
+
+    // Plays the item at the index or, if its file is missing, the next one in the direction
+    private playItem(idx: number, direction: 1 | -1) {
+        const { items } = this.track;
+        for (let i = 0; i < items.length; i++) {
+            let itemIdx = idx + i * direction;
+            if (this.track.loop) {
+                itemIdx = ((itemIdx % items.length) + items.length) % items.length;
+            }
+            if (itemIdx < 0 || itemIdx >= items.length) {
+                break;
+            }
+            if (fs.existsSync(items[itemIdx].filePath)) {
+                this.playlistIdx = itemIdx;
+                this.start(items[itemIdx], false);
+                return;
+            }
+            console.warn(`File of audio track item ${items[itemIdx].id} not found: ${items[itemIdx].filePath}`);
+        }
+        this.stop();
+    }
+
+    private getSlideVolume(slide: Slide) {
+        return slide.muted ? 0 : slide.volume ?? 1;
+    }
+
+    private start(item: AudioTrackItem, looping: boolean, slideId?: string, itemVolume = 1) {
+        if (!fs.existsSync(item.filePath)) {
+            console.warn(`Audio file not found: ${item.filePath}`);
+            return;
+        }
+        this.fadeOut();
+        const input = osn.InputFactory.create("ffmpeg_source", `audio-${this.inputCount++}`, {
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            is_local_file: true,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            local_file: item.filePath,
+            looping,
+        });
+        // Set monitoringType to Monitor and Output like the videos
+        // eslint-disable-next-line dot-notation
+        input["monitoringType"] = 2;
+        input.volume = 0;
+        const playing: PlayingItem = {
+            item, slideId, input, sceneItem: this.scene.add(input), itemVolume, gain: 0,
+        };
+        this.current = playing;
+        this.meter.attach(input);
+        playing.fadeTimer = animate(0, 1, this.track.fadeIn, (value) => {
+            playing.gain = value;
+            this.updateVolume(playing);
+        });
+    }
+
+    private stop() {
+        this.fadeOut();
+        this.playlistIdx = undefined;
+        this.state.next(undefined);
+    }
+
+    private fadeOut() {
+        const playing = this.current;
+        if (!playing) {
+            return;
+        }
+        this.current = undefined;
+        this.meter.detach();
+        this.fadingOut.push(playing);
+        clearInterval(playing.fadeTimer);
+        playing.fadeTimer = animate(playing.gain, 0, this.track.fadeOut, (value) => {
+            playing.gain = value;
+            this.updateVolume(playing);
+        }, () => {
+            this.fadingOut = this.fadingOut.filter((p) => p != playing);
+            this.releaseItem(playing);
+        });
+    }
+
+    private releaseItem(playing: PlayingItem) {
+        clearInterval(playing.fadeTimer);
+        playing.sceneItem.remove();
+        playing.input.release();
+    }
+
+    private updateVolumes() {
+        for (const playing of [this.current, ...this.fadingOut].filter((p) => p)) {
+            this.updateVolume(playing);
+        }
+    }
+
+    private updateVolume(playing: PlayingItem) {
+        const ducking = this.track.ducking
+            ? 1 - this.duckProgress * (1 - this.track.duckingVolume)
+            : 1;
+        playing.input.volume = this.masterVolume * this.track.volume * ducking
+            * playing.itemVolume * playing.gain;
+    }
+
+    // Continues with the next item when the current one ended and reports the position
+    private update() {
+        const playing = this.current;
+        if (!playing) {
+            return;
+        }
+        const { input } = playing;
+        if (input.getMediaState() == MEDIA_STATE_ENDED && !input.settings.looping) {
+            this.current = undefined;
+            this.meter.detach();
+            this.releaseItem(playing);
+            if (playing.slideId) {
+                this.ended.next(playing.slideId);
+            }
+            if (this.playlistIdx === undefined) {
+                this.stop();
+            } else {
+                this.playItem(this.playlistIdx + 1, 1);
+            }
+            return;
+        }
+        this.state.next({
+            id: playing.item.id,
+            name: playing.item.name,
+            slideId: playing.slideId,
+            time: input.getTime(),
+            duration: input.getDuration(),
+            volume: this.track.volume,
+            ducked: this.ducked && this.track.ducking,
+        });
+    }
+}
@@ -1,32 +1,107 @@
 /* eslint-disable no-console */
 import * as osn from "obs-studio-node";
-import { BrowserWindow } from "electron";
+import { BrowserWindow, screen } from "electron";
 import { Subject } from "rxjs";
 import * as path from "path";
 import * as fs from "fs";
-import { ISceneItem, ITransition } from "obs-studio-node";
+import { IScene, ISceneItem, ITransition } from "obs-studio-node";
 import * as ffmpeg from "fluent-ffmpeg";
 import { Slide } from "../app/_classes/slide";
 import { supportedFiles } from "../app/_globals/supportedFilesFilters";
 import { Store } from "../app/_helpers/store";
 import { settingsStoreOptions } from "../app/_globals/settingsStoreOptions";
 import { hexToRgb } from "../app/_helpers/hexToRgb";
+import { hexToObsColor } from "../app/_helpers/hexToObsColor";
+import { isEmbeddedText } from "../app/_helpers/isEmbeddedText";
 import { AlignmentOptions } from "../app/_classes/alignmentOptions";
 import { TransitionTypes } from "../app/_globals/transitionTypes";
+import { TransitionOptions } from "../app/_classes/transitionOptions";
+import { TextOptions } from "../app/_classes/textOptions";
+import { Overlay } from "../app/_classes/overlay";
+import { MediaAction, MediaProgress } from "../app/_classes/mediaProgress";
+import { AudioTrack, AudioTrackAction, AudioTrackState } from "../app/_classes/audioTrack";
+import { AudioDevice, AudioLevels } from "../app/_classes/audioLevels";
+import { AudioPlayer } from "./audioPlayer";
+import { AudioMeter } from "./audioMeter";
 
 const LOGO_SCENE_ID = "LOGOSCENE";
 const CUSTOM_LOGO_SCENE_ID = "CUSTOMLOGOSCENE";
 const BLACK_SCENE_ID = "BLACKSCENE";
 const ALIGNMENT_CENTER: any = { alignment: "center", padding: 50, scale: "fit" };
+const MEDIA_STATE_PAUSED = 4; // OBS_MEDIA_STATE_PAUSED
+const MEDIA_STATE_ENDED = 6; // OBS_MEDIA_STATE_ENDED
+// Shows the program (what is on the projector) in the main window
+const PROGRAM_DISPLAY_ID = "previewDisplay";
+// Shows the slide which is taken next in studio mode
+const STUDIO_PREVIEW_DISPLAY_ID = "studioPreviewDisplay";
+// Every projector gets its own display, followed by the projector ID
+const PROJECTOR_DISPLAY_ID = "projector";
+// Shows the program in the presenter window for the stage monitor
+const PRESENTER_DISPLAY_ID = "presenter";
+const OVERLAY_SCENE_ID = "OVERLAYSCENE";
+// Output channels are rendered in order, so the overlays are drawn above the slides of channel 0
+const OVERLAY_CHANNEL = 1;
+const OVERLAY_FADE_INTERVAL = 1000 / 30;
+// The background music and the audio slides
+const AUDIO_CHANNEL = 2;
+const AUDIO_LEVELS_INTERVAL = 100;
 
 ffmpeg.setFfprobePath(path.join(__dirname, "../../bin/ffprobe.exe").replace("app.asar", ""));
 
 export class OBS {
     private obsInitialized = false;
     private signals: Subject<any> = new Subject();
-    public previewWindow: BrowserWindow;
+    // The windowed projector and the fullscreen projectors on other displays, by projector ID
+    private projectorWindows: { [id: string]: BrowserWindow } = {};
+    private presenterWindow: BrowserWindow;
+    private presenterDisplayCreated = false;
     private settingsStore: Store;
     private transition: ITransition;
+    // One transition per type, they are created when they are used for the first time
+    private transitions: { [type: string]: ITransition } = {};
+    private currentScene: IScene;
+    private overlayScene: IScene;
+    private overlays: {
+        [id: string]: {
+            overlay: Overlay;
+            sceneItem: ISceneItem;
+            filter: osn.IFilter;
+            opacity: number;
+            visible: boolean;
+            fadeTimer?: NodeJS.Timeout;
+        };
+    } = {};
+    private mediaWatcher: NodeJS.Timeout;
+    // The video which is currently live, the transport controls act on it
+    private liveMedia: osn.IInput;
+    private liveMediaSlideId: string;
+    private audioPlayer: AudioPlayer;
+    // Measures the live video, the audio player measures the music itself
+    private slideMeter: AudioMeter;
+    private levelsTimer: NodeJS.Timeout;
+    private levelsSilent = false;
+    private masterVolume = 1;
+    // Volume of the video slides by ID, changed by the transport controls while they are live
+    private slideVolumes: { [slideId: string]: number } = {};
+    // Whether the videos have an audio stream, by file
+    private audioStreams: { [file: string]: Promise<boolean> } = {};
+    public mediaEnded: Subject<string> = new Subject();
+    public transitionStarted: Subject<{ sceneName: string; duration: number }> = new Subject();
+    public projectorClosed: Subject<string> = new Subject();
+    public presenterClosed: Subject<void> = new Subject();
+    // Undefined when the live slide isn't a video
+    public mediaProgress: Subject<MediaProgress> = new Subject();
+    // Undefined when the audio track is stopped
+    public audioTrackState: Subject<AudioTrackState> = new Subject();
+    public audioLevels: Subject<AudioLevels> = new Subject();
+    private studioPreview: {
+        window: BrowserWindow; bounds: any; sceneName: string; created: boolean;
+    } = {
+        window: undefined,
+        bounds: undefined,
+        sceneName: undefined,
+        created: false,
+    };
 
     constructor(parentWindow: BrowserWindow) {
         this.settingsStore = new Store(settingsStoreOptions);
@@ -92,6 +167,7 @@ export class OBS {
         this.setSetting("Output", "RecFormat", "mkv");
         this.setSetting("Output", "VBitrate", 10000); // 10 Mbps
         this.setSetting("Video", "FPSCommon", 60);
+        this.setMonitoringDevice();
 
         console.debug("OBS Configured");
     }
@@ -112,9 +188,39 @@ export class OBS {
 
         osn.SceneFactory.create(BLACK_SCENE_ID);
 
-        this.transition = osn.TransitionFactory.create(TransitionTypes.Fade, "myTransition", {});
+        this.transition = this.getTransition(this.settingsStore.get("defaultTransition"));
         this.transition.set(logoScene);
+        this.currentScene = logoScene;
         osn.Global.setOutputSource(0, this.transition);
+
+        this.overlayScene = osn.SceneFactory.create(OVERLAY_SCENE_ID);
+        osn.Global.setOutputSource(OVERLAY_CHANNEL, this.overlayScene);
+
+        this.audioPlayer = new AudioPlayer(AUDIO_CHANNEL);
+        this.audioPlayer.state.subscribe((state) => this.audioTrackState.next(state));
+        this.audioPlayer.ended.subscribe((slideId) => this.mediaEnded.next(slideId));
+        this.masterVolume = this.settingsStore.get("masterVolume");
+        this.audioPlayer.setMasterVolume(this.masterVolume);
+
+        this.slideMeter = new AudioMeter();
+        this.levelsTimer = setInterval(() => this.reportAudioLevels(), AUDIO_LEVELS_INTERVAL);
+    }
+
+    private setMonitoringDevice() {
+        const deviceId = this.settingsStore.get("monitoringDeviceId");
+        const devices = this.getMonitoringDevices();
+        // the default device is used when the saved one isn't connected anymore
+        const device = devices.find((d) => d.id == deviceId) || devices[0];
+        if (device) {
+            this.setSetting("Advanced", "MonitoringDeviceName", device.name);
+            this.setSetting("Advanced", "MonitoringDeviceId", device.id);
+        }
+    }
+
+    // The first device is the default device of the system
+    public getMonitoringDevices(): AudioDevice[] {
+        return this.getAvailableOptions("Advanced", "Audio", "MonitoringDeviceName")
+            .map(({ name, value }) => ({ id: value, name }));
     }
 
     private setVideoOutputResolution() {
@@ -124,10 +230,10 @@ export class OBS {
         this.setSetting("Video", "Output", `${outputWidth}x${outputHeight}`);
     }
 
-    public updateSettings(parentWindow) {
+    public updateSettings() {
         this.settingsStore = new Store(settingsStoreOptions);
-        if (this.previewWindow) {
-            this.setupProjector(parentWindow);
+        for (const id of Object.keys(this.projectorWindows)) {
+            this.updateProjector(id);
         }
         const si = osn.SceneFactory.fromName(CUSTOM_LOGO_SCENE_ID).getItems()[0];
         si.source.update({ file: this.settingsStore.get("customLogoPath") });
@@ -136,6 +242,10 @@ export class OBS {
         }, 200);
         this.alignItem(undefined, si, ALIGNMENT_CENTER);
         this.setVideoOutputResolution();
+        this.setMonitoringDevice();
+        this.setMasterVolume(this.settingsStore.get("masterVolume"));
+        // the size of text and HTML overlays depends on the output resolution
+        this.setOverlays(Object.values(this.overlays).map((o) => o.overlay));
     }
 
     private alignItem(slide: Slide, sceneItem: ISceneItem, options?: AlignmentOptions) {
@@ -233,57 +343,186 @@ export class OBS {
         osn.NodeObs.OBS_content_createSourcePreviewDisplay(
             parentWindow.getNativeWindowHandle(),
             "", // or use camera source Id here
-            "previewDisplay",
+            PROGRAM_DISPLAY_ID,
         );
-        osn.NodeObs.OBS_content_setShouldDrawUI("previewDisplay", false);
+        osn.NodeObs.OBS_content_setShouldDrawUI(PROGRAM_DISPLAY_ID, false);
 
         return this.resizePreview(bounds);
     }
 
-    public setupProjector(parentWindow) {
-        const displayId = "projector";
-        const displayWidth = Math.round(this.settingsStore.get("width") / 2);
-        const displayHeight = Math.round(this.settingsStore.get("height") / 2);
-        const resized = () => {
-            const { width, height } = this.previewWindow.getContentBounds();
-            osn.NodeObs.OBS_content_resizeDisplay(displayId, width, height);
-            osn.NodeObs.OBS_content_setPaddingSize(displayId, this.settingsStore.get("paddingSize"));
-        };
-        if (!this.previewWindow) {
-            this.previewWindow = new BrowserWindow({
-                width: displayWidth,
-                height: displayHeight,
-                parent: parentWindow,
-                useContentSize: true,
-                autoHideMenuBar: true,
-            });
-            this.previewWindow.webContents.on("dom-ready", () => {
-                this.previewWindow.webContents.insertCSS("* { cursor: none !important; }");
-            });
-            this.previewWindow.loadURL("data:text/html;charset=utf-8,");
-            this.previewWindow.on("close", () => {
-                osn.NodeObs.OBS_content_destroyDisplay("projector");
-                this.previewWindow = undefined;
-            });
-        } else {
-            this.previewWindow.removeAllListeners("resize");
+    public setupStudioPreview(parentWindow: BrowserWindow, bounds) {
+        this.studioPreview.window = parentWindow;
+        this.studioPreview.bounds = bounds;
+        this.createStudioPreviewDisplay();
+    }
+
+    public resizeStudioPreview(bounds) {
+        this.studioPreview.bounds = bounds;
+        if (this.studioPreview.window) {
+            this.resizeDisplay(STUDIO_PREVIEW_DISPLAY_ID, bounds);
+        }
+    }
+
+    public previewScene(sceneName: string) {
+        this.studioPreview.sceneName = sceneName;
+        if (this.studioPreview.window) {
+            // the source of a display can't be changed, so it has to be created again
+            this.createStudioPreviewDisplay();
+        }
+    }
+
+    public endStudioPreview() {
+        if (this.studioPreview.created) {
+            osn.NodeObs.OBS_content_destroyDisplay(STUDIO_PREVIEW_DISPLAY_ID);
+            this.studioPreview.created = false;
         }
-        this.previewWindow.on("resize", resized);
+        this.studioPreview.window = undefined;
+    }
+
+    private createStudioPreviewDisplay() {
+        const { window, bounds, sceneName } = this.studioPreview;
+        if (sceneName && !osn.SceneFactory.fromName(sceneName)) {
+            this.studioPreview.sceneName = undefined;
+        }
+        if (this.studioPreview.created) {
+            osn.NodeObs.OBS_content_destroyDisplay(STUDIO_PREVIEW_DISPLAY_ID);
+        }
+        osn.NodeObs.OBS_content_createSourcePreviewDisplay(
+            window.getNativeWindowHandle(),
+            this.studioPreview.sceneName || BLACK_SCENE_ID,
+            STUDIO_PREVIEW_DISPLAY_ID,
+        );
+        this.studioPreview.created = true;
+        osn.NodeObs.OBS_content_setShouldDrawUI(STUDIO_PREVIEW_DISPLAY_ID, false);
+        if (bounds) {
+            this.resizeDisplay(STUDIO_PREVIEW_DISPLAY_ID, bounds);
+        }
+    }
+
+    // Without bounds the projector is a window which can be dragged onto the beamer,
+    // otherwise it covers the given display without a frame
+    public setupProjector(id: string, parentWindow: BrowserWindow, bounds?: Electron.Rectangle) {
+        const existingWindow = this.projectorWindows[id];
+        if (existingWindow) {
+            if (bounds) {
+                existingWindow.setFullScreen(false);
+                existingWindow.setBounds(bounds);
+                existingWindow.setFullScreen(true);
+            }
+            return;
+        }
+        const window = new BrowserWindow(bounds ? {
+            ...bounds,
+            frame: false,
+            fullscreen: true,
+            autoHideMenuBar: true,
+            backgroundColor: this.settingsStore.get("backgroundColor"),
+        } : {
+            width: Math.round(this.settingsStore.get("width") / 2),
+            height: Math.round(this.settingsStore.get("height") / 2),
+            parent: parentWindow,
+            useContentSize: true,
+            autoHideMenuBar: true,
+        });
+        this.projectorWindows[id] = window;
+        window.webContents.on("dom-ready", () => {
+            window.webContents.insertCSS("* { cursor: none !important; }");
+        });
+        window.loadURL("data:text/html;charset=utf-8,");
+        window.on("close", () => {
+            osn.NodeObs.OBS_content_destroyDisplay(PROJECTOR_DISPLAY_ID + id);
+            delete this.projectorWindows[id];
+            this.projectorClosed.next(id);
+        });
+        window.on("resize", () => this.resizeProjector(id));
 
         osn.NodeObs.OBS_content_createSourcePreviewDisplay(
-            this.previewWindow.getNativeWindowHandle(),
+            window.getNativeWindowHandle(),
             "", // or use camera source Id here
-            displayId,
+            PROJECTOR_DISPLAY_ID + id,
         );
-        osn.NodeObs.OBS_content_setShouldDrawUI(displayId, true);
-        osn.NodeObs.OBS_content_setPaddingColor(displayId, ...hexToRgb(this.settingsStore.get("backgroundColor")));
-        resized();
+        osn.NodeObs.OBS_content_setShouldDrawUI(PROJECTOR_DISPLAY_ID + id, true);
+        this.updateProjector(id);
+    }
+
+    private updateProjector(id: string) {
+        osn.NodeObs.OBS_content_setPaddingColor(PROJECTOR_DISPLAY_ID + id, ...hexToRgb(this.settingsStore.get("backgroundColor")));
+        this.resizeProjector(id);
+    }
+
+    private resizeProjector(id: string) {
+        const window = this.projectorWindows[id];
+        const { width, height } = window.getContentBounds();
+        // the projector may be on a display with another scale factor than the primary one
+        const { scaleFactor } = screen.getDisplayMatching(window.getBounds());
+        osn.NodeObs.OBS_content_resizeDisplay(
+            PROJECTOR_DISPLAY_ID + id, width * scaleFactor, height * scaleFactor,
+        );
+        osn.NodeObs.OBS_content_setPaddingSize(PROJECTOR_DISPLAY_ID + id, this.settingsStore.get("paddingSize"));
+    }
+
+    public endProjector(id: string) {
+        if (this.projectorWindows[id]) {
+            this.projectorWindows[id].close();
+        }
+    }
+
+    public setupPresenter(url: string, bounds: Electron.Rectangle) {
+        if (this.presenterWindow) {
+            this.presenterWindow.setFullScreen(false);
+            this.presenterWindow.setBounds(bounds);
+            this.presenterWindow.setFullScreen(true);
+            return;
+        }
+        this.presenterWindow = new BrowserWindow({
+            ...bounds,
+            frame: false,
+            fullscreen: true,
+            autoHideMenuBar: true,
+            backgroundColor: "#000000",
+            webPreferences: {
+                nodeIntegration: true,
+                webSecurity: false,
+            },
+        });
+        this.presenterWindow.loadURL(url);
+        this.presenterWindow.on("close", () => {
+            if (this.presenterDisplayCreated) {
+                osn.NodeObs.OBS_content_destroyDisplay(PRESENTER_DISPLAY_ID);
+                this.presenterDisplayCreated = false;
+            }
+            this.presenterWindow = undefined;
+            this.presenterClosed.next();
+        });
+    }
+
+    // The presenter page reports where the live slide has to be drawn
+    public resizePresenterDisplay(bounds) {
+        if (!this.presenterWindow) {
+            return;
+        }
+        if (!this.presenterDisplayCreated) {
+            osn.NodeObs.OBS_content_createSourcePreviewDisplay(
+                this.presenterWindow.getNativeWindowHandle(),
+                "", // the program, like the projector
+                PRESENTER_DISPLAY_ID,
+            );
+            osn.NodeObs.OBS_content_setShouldDrawUI(PRESENTER_DISPLAY_ID, false);
+            this.presenterDisplayCreated = true;
+        }
+        this.resizeDisplay(PRESENTER_DISPLAY_ID, bounds);
+    }
+
+    public sendToPresenter(channel: string, data: unknown) {
+        if (this.presenterWindow) {
+            this.presenterWindow.webContents.send(channel, data);
+        }
     }
 
-    public endProjector() {
-        osn.NodeObs.OBS_content_destroyDisplay("projector");
-        this.previewWindow.close();
-        this.previewWindow = undefined;
+    public endPresenter() {
+        if (this.presenterWindow) {
+            this.presenterWindow.close();
+        }
     }
 
     public clearSlides() {
@@ -291,10 +530,102 @@ export class OBS {
     }
 
     public updateProperties(slide: Slide) {
-        this.alignItem(slide, osn.SceneFactory.fromName(slide.id).getItems()[0]);
+        if (slide.type == "audio") {
+            this.audioPlayer.updateSlide(slide);
+        }
+        const scene = osn.SceneFactory.fromName(slide.id);
+        if (!scene) {
+            return;
+        }
+        const sceneItem = scene.getItems()[0];
+        if (sceneItem.source.id == "ffmpeg_source") {
+            if (sceneItem.source.settings.looping != slide.cue.loop) {
+                sceneItem.source.update({ looping: slide.cue.loop });
+            }
+            this.setSlideVolume(slide, sceneItem.source as osn.IInput);
+        }
+        if (slide.text) {
+            sceneItem.source.update(this.getSlideTextSettings(slide));
+        }
+        this.alignItem(slide, sceneItem);
+    }
+
+    // The file changes when a slide is relinked or such a change is undone
+    private updateFile(slide: Slide, source: osn.ISource) {
+        if (isEmbeddedText(slide)) {
+            return;
+        }
+        const { settings } = source;
+        if (settings.local_file !== undefined && settings.local_file != slide.filePath) {
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            source.update({ local_file: slide.filePath });
+        } else if (settings.file !== undefined && settings.file != slide.filePath) {
+            source.update({ file: slide.filePath });
+        }
+    }
+
+    private getSlideTextSettings(slide: Slide) {
+        const { padding } = slide.alignment;
+        const settings = this.getTextSettings(
+            slide.text,
+            this.settingsStore.get("width") - 2 * padding,
+            this.settingsStore.get("height") - 2 * padding,
+        );
+        if (!isEmbeddedText(slide)) {
+            delete settings.text;
+        }
+        return settings;
+    }
+
+    private getTextSettings(text: TextOptions, width: number, height: number) {
+        const settings: any = {
+            font: { face: text.fontFace, size: text.fontSize },
+            color: hexToObsColor(text.color),
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            bk_color: hexToObsColor(text.backgroundColor),
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            bk_opacity: text.backgroundOpacity,
+            outline: text.outline,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            outline_color: hexToObsColor(text.outlineColor),
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            outline_size: text.outlineSize,
+            align: text.align,
+            // word wrap only works when the size of the text box is fixed
+            extents: text.wrap,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            extents_wrap: text.wrap,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            extents_cx: width,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            extents_cy: height,
+        };
+        if (text.content !== undefined) {
+            settings.text = text.content;
+        }
+        return settings;
     }
 
     public addFile(slide: Slide) {
+        const existingScene = osn.SceneFactory.fromName(slide.id);
+        if (existingScene) {
+            // the slide was already added, e.g. when the slides are synced again after an undo
+            const { source } = existingScene.getItems()[0];
+            this.updateFile(slide, source);
+            this.updateProperties(slide);
+            return source;
+        }
+        if (isEmbeddedText(slide)) {
+            return this.createSlideScene(slide, "text_gdiplus", this.getSlideTextSettings(slide));
+        }
+        if (slide.type == "audio") {
+            // audio slides are played by the audio player and don't have a scene
+            return null;
+        }
+        if (!fs.existsSync(slide.filePath)) {
+            console.warn(`File of slide ${slide.id} not found: ${slide.filePath}`);
+            return null;
+        }
         const realpath = fs.realpathSync(slide.filePath);
         let ext = realpath.split(".").splice(-1)[0];
         if (!ext) return null;
@@ -319,31 +650,66 @@ export class OBS {
                     is_local_file: true,
                     // eslint-disable-next-line @typescript-eslint/camelcase
                     local_file: slide.filePath,
-                    looping: true,
+                    looping: slide.cue.loop,
+                    // eslint-disable-next-line @typescript-eslint/camelcase
+                    restart_on_activate: true,
                 };
             } else if (type.obsName === "text_gdiplus") {
                 settings = {
+                    ...(slide.text ? this.getSlideTextSettings(slide) : {}),
                     // eslint-disable-next-line @typescript-eslint/camelcase
                     read_from_file: true,
                     file: slide.filePath,
                 };
             }
             if (settings) {
-                const s = this.createSource(slide.id, type.obsName, settings);
-                if (type.obsName === "ffmpeg_source") {
-                    // Set monitoringType to Monitor and Output
-                    s["monitoringType"] = 2
-                }
-                // const sceneItem = this.scenes[0].scene.add(s);
-                const scene = osn.SceneFactory.create(slide.id);
-                const si = scene.add(s);
-                this.alignItem(slide, si);
-                return s;
+                return this.createSlideScene(slide, type.obsName, settings);
             }
         }
         return null;
     }
 
+    private createSlideScene(slide: Slide, obsName: string, settings: any) {
+        const s = this.createSource(slide.id, obsName, settings);
+        if (obsName === "ffmpeg_source") {
+            // Set monitoringType to Monitor and Output
+            s["monitoringType"] = 2
+            this.setSlideVolume(slide, s);
+        }
+        // const sceneItem = this.scenes[0].scene.add(s);
+        const scene = osn.SceneFactory.create(slide.id);
+        const si = scene.add(s);
+        this.alignItem(slide, si);
+        return s;
+    }
+
+    private setSlideVolume(slide: Slide, input: osn.IInput) {
+        this.slideVolumes[slide.id] = slide.volume ?? 1;
+        input.volume = this.slideVolumes[slide.id] * this.masterVolume;
+        input.muted = !!slide.muted;
+    }
+
+    public setMasterVolume(volume: number) {
+        this.masterVolume = Math.max(0, Math.min(volume, 1));
+        for (const [slideId, slideVolume] of Object.entries(this.slideVolumes)) {
+            const input = osn.InputFactory.fromName(slideId);
+            if (input) {
+                input.volume = slideVolume * this.masterVolume;
+            }
+        }
+        this.audioPlayer.setMasterVolume(this.masterVolume);
+    }
+
+    // Only sent once while nothing is playing
+    private reportAudioLevels() {
+        const levels = { slide: this.slideMeter.read(), music: this.audioPlayer.getLevels() };
+        const silent = !levels.slide.length && !levels.music.length;
+        if (!(silent && this.levelsSilent)) {
+            this.audioLevels.next(levels);
+        }
+        this.levelsSilent = silent;
+    }
+
     private createSource(
         name: string,
         type: string,
@@ -354,13 +720,255 @@ export class OBS {
         return obsInput;
     }
 
-    public transitionTo(sceneName: string) {
+    public transitionTo(sceneName: string, options?: TransitionOptions) {
         const scene = osn.SceneFactory.fromName(sceneName);
-        this.transition.start(300, scene);
+        if (!scene) {
+            console.warn(`Scene ${sceneName} not found, the file of the slide is probably missing.`);
+            return;
+        }
+        this.startTransition(scene, options);
+        this.watchMedia(scene.getItems()[0]?.source as osn.IInput, sceneName);
     }
     public transitionToDefaultSlide(slide: "black" | "logo" | "customLogo") {
         const scene = osn.SceneFactory.fromName(slide == "black" ? BLACK_SCENE_ID : slide == "logo" ? LOGO_SCENE_ID : CUSTOM_LOGO_SCENE_ID);
-        this.transition.start(300, scene);
+        this.startTransition(scene);
+        this.watchMedia(undefined, undefined);
+    }
+
+    private startTransition(scene: IScene, options?: TransitionOptions) {
+        const transitionOptions = options || this.settingsStore.get("defaultTransition");
+        const transition = this.getTransition(transitionOptions);
+        if (transition !== this.transition) {
+            // the new transition has to start from the scene which is currently shown
+            transition.set(this.currentScene);
+            osn.Global.setOutputSource(0, transition);
+            this.transition = transition;
+        }
+        const duration = transitionOptions.type == TransitionTypes.Cut
+            ? 0
+            : transitionOptions.duration;
+        transition.start(duration, scene);
+        this.currentScene = scene;
+        this.transitionStarted.next({ sceneName: scene.name, duration });
+    }
+
+    private getTransition(options: TransitionOptions) {
+        if (!this.transitions[options.type]) {
+            this.transitions[options.type] = osn.TransitionFactory.create(options.type, `transition-${options.type}`, {});
+        }
+        const transition = this.transitions[options.type];
+        transition.update(this.getTransitionSettings(options));
+        return transition;
+    }
+
+    private getTransitionSettings(options: TransitionOptions) {
+        switch (options.type) {
+        case TransitionTypes.Swipe:
+        case TransitionTypes.Slide:
+            return { direction: options.direction || "left" };
+        case TransitionTypes.FadeToColor:
+            return { color: hexToObsColor(options.color) };
+        case TransitionTypes.LumaWipe:
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            return { luma_image: options.lumaImage || "linear-h.png" };
+        case TransitionTypes.Stinger:
+            return {
+                path: options.stingerFile || "",
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                tp_type: 0, // the transition point is a time in milliseconds
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                transition_point: options.stingerTransitionPoint || 0,
+            };
+        default:
+            return {};
+        }
+    }
+
+    // Creates, updates and removes the overlay sources, the visibility of existing ones is kept
+    public setOverlays(overlays: Overlay[]) {
+        for (const id of Object.keys(this.overlays)) {
+            const overlay = overlays.find((o) => o.id == id);
+            const current = this.overlays[id].overlay;
+            if (!overlay || overlay.type != current.type || overlay.filePath != current.filePath) {
+                this.removeOverlay(id);
+            }
+        }
+        for (const overlay of overlays) {
+            if (this.overlays[overlay.id]) {
+                this.overlays[overlay.id].overlay = overlay;
+                this.overlays[overlay.id].sceneItem.source.update(this.getOverlaySettings(overlay));
+                this.overlays[overlay.id].sceneItem.position = overlay.position;
+            } else {
+                this.addOverlay(overlay);
+            }
+        }
+    }
+
+    private addOverlay(overlay: Overlay) {
+        if (overlay.type != "text" && !fs.existsSync(overlay.filePath || "")) {
+            console.warn(`File of overlay ${overlay.id} not found: ${overlay.filePath}`);
+            return;
+        }
+        const type = { text: "text_gdiplus", image: "image_source", browser: "browser_source" }[overlay.type];
+        const source = this.createSource(`overlay-${overlay.id}`, type, this.getOverlaySettings(overlay));
+        const filter = osn.FilterFactory.create("color_filter", `overlay-fade-${overlay.id}`, { opacity: 0 });
+        source.addFilter(filter);
+        const sceneItem = this.overlayScene.add(source);
+        sceneItem.position = overlay.position;
+        sceneItem.visible = false;
+        this.overlays[overlay.id] = {
+            overlay, sceneItem, filter, opacity: 0, visible: false,
+        };
+    }
+
+    private removeOverlay(id: string) {
+        const { sceneItem, filter, fadeTimer } = this.overlays[id];
+        clearInterval(fadeTimer);
+        const { source } = sceneItem;
+        sceneItem.remove();
+        source.removeFilter(filter);
+        filter.release();
+        source.release();
+        delete this.overlays[id];
+    }
+
+    private getOverlaySettings(overlay: Overlay) {
+        const width = this.settingsStore.get("width");
+        const height = this.settingsStore.get("height");
+        switch (overlay.type) {
+        case "text":
+            return this.getTextSettings(
+                overlay.text, width - overlay.position.x, height - overlay.position.y,
+            );
+        case "image":
+            return { file: overlay.filePath };
+        case "browser":
+            return {
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                is_local_file: true,
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                local_file: overlay.filePath,
+                width,
+                height,
+            };
+        default:
+            return {};
+        }
+    }
+
+    public setOverlayVisible(id: string, visible: boolean) {
+        const item = this.overlays[id];
+        if (!item || item.visible == visible) {
+            return;
+        }
+        item.visible = visible;
+        clearInterval(item.fadeTimer);
+        const duration = visible ? item.overlay.fadeIn : item.overlay.fadeOut;
+        const from = item.opacity;
+        const to = visible ? 100 : 0;
+        const start = Date.now();
+        item.sceneItem.visible = true;
+        const step = () => {
+            const progress = duration > 0 ? Math.min((Date.now() - start) / duration, 1) : 1;
+            item.opacity = from + (to - from) * progress;
+            item.filter.update({ opacity: Math.round(item.opacity) });
+            if (progress >= 1) {
+                clearInterval(item.fadeTimer);
+                item.sceneItem.visible = visible;
+            }
+        };
+        item.fadeTimer = setInterval(step, OVERLAY_FADE_INTERVAL);
+        step();
+    }
+
+    // Reports the playback position, videos which are played once also report
+    // the end of the playback through mediaEnded
+    private watchMedia(input: osn.IInput, slideId: string) {
+        clearInterval(this.mediaWatcher);
+        if (!input || input.id != "ffmpeg_source") {
+            this.liveMedia = undefined;
+            this.liveMediaSlideId = undefined;
+            this.slideMeter.detach();
+            this.mediaProgress.next(undefined);
+            this.audioPlayer.setDucked(false);
+            return;
+        }
+        this.liveMedia = input;
+        this.liveMediaSlideId = slideId;
+        this.slideMeter.attach(input);
+        let ended = false;
+        let hasAudio = false;
+        this.hasAudio(input.settings.local_file).then((result) => {
+            hasAudio = result;
+        });
+        this.mediaWatcher = setInterval(() => {
+            const state = input.getMediaState();
+            this.audioPlayer.setDucked(
+                hasAudio && state != MEDIA_STATE_PAUSED && state != MEDIA_STATE_ENDED,
+            );
+            this.mediaProgress.next({
+                slideId,
+                time: input.getTime(),
+                duration: input.getDuration(),
+                paused: state == MEDIA_STATE_PAUSED,
+                ended: state == MEDIA_STATE_ENDED,
+                volume: this.slideVolumes[slideId] ?? 1,
+            });
+            // a restarted video can end again
+            if (state == MEDIA_STATE_ENDED && !ended && !input.settings.looping) {
+                this.mediaEnded.next(slideId);
+            }
+            ended = state == MEDIA_STATE_ENDED;
+        }, 200);
+    }
+
+    private hasAudio(file: string): Promise<boolean> {
+        if (!this.audioStreams[file]) {
+            this.audioStreams[file] = new Promise((resolve) => {
+                ffmpeg.ffprobe(file, (err, metadata) => {
+                    resolve(!err && metadata.streams.some((s) => s.codec_type == "audio"));
+                });
+            });
+        }
+        return this.audioStreams[file];
+    }
+
+    public setAudioTrack(track: AudioTrack) {
+        this.audioPlayer.setTrack(track);
+    }
+
+    public controlAudioTrack(action: AudioTrackAction, value?: number) {
+        this.audioPlayer.control(action, value);
+    }
+
+    public playAudioSlide(slide: Slide) {
+        this.audioPlayer.playSlide(slide);
+    }
+
+    public controlMedia(action: MediaAction, value?: number) {
+        if (!this.liveMedia) {
+            return;
+        }
+        switch (action) {
+        case "play":
+            this.liveMedia.play();
+            break;
+        case "pause":
+            this.liveMedia.pause();
+            break;
+        case "restart":
+            this.liveMedia.restart();
+            break;
+        case "seek":
+            this.liveMedia.setTime(Math.max(0, Math.min(value, this.liveMedia.getDuration())));
+            break;
+        case "volume":
+            this.slideVolumes[this.liveMediaSlideId] = Math.max(0, Math.min(value, 1));
+            this.liveMedia.volume = this.slideVolumes[this.liveMediaSlideId] * this.masterVolume;
+            break;
+        default:
+            break;
+        }
     }
 
     public shutdown() {
@@ -370,6 +978,13 @@ export class OBS {
         }
 
         console.debug("Shutting down OBS...");
+        clearInterval(this.mediaWatcher);
+        clearInterval(this.levelsTimer);
+        this.slideMeter.release();
+        this.audioPlayer.release();
+        for (const { fadeTimer } of Object.values(this.overlays)) {
+            clearInterval(fadeTimer);
+        }
 
         try {
             osn.NodeObs.OBS_service_removeCallback();
@@ -379,8 +994,8 @@ export class OBS {
             throw Error(`Exception when shutting down OBS process${e}`);
         }
         try {
-            if (this.previewWindow) {
-                this.previewWindow.close();
+            for (const window of Object.values(this.projectorWindows)) {
+                window.close();
             }
         } catch {
             //
@@ -413,6 +1028,13 @@ export class OBS {
     }
 
     private getAvailableValues(category, subcategory, parameter) {
+        return this.getAvailableOptions(category, subcategory, parameter).map((o) => o.value);
+    }
+
+    // The values of a list setting with their display names
+    private getAvailableOptions(
+        category, subcategory, parameter,
+    ): { name: string; value: any }[] {
         const categorySettings = osn.NodeObs.OBS_settings_getSettings(category).data;
         if (!categorySettings) {
             console.warn(`There is no category ${category} in OBS settings`);
@@ -435,25 +1057,34 @@ export class OBS {
             return [];
         }
 
-        return parameterSettings.values.map((value) => Object.values(value)[0]);
+        return parameterSettings.values.map((value) => ({
+            name: Object.keys(value)[0],
+            value: Object.values(value)[0],
+        }));
     }
 
     public resizePreview(bounds) {
+        return this.resizeDisplay(PROGRAM_DISPLAY_ID, bounds);
+    }
+
+    private resizeDisplay(displayId: string, bounds) {
         const { scaleFactor } = this.displayInfo();
         const displayWidth = Math.floor(bounds.width);
         const displayHeight = Math.round(bounds.height);
         const displayX = Math.floor(bounds.x);
         const displayY = Math.floor(bounds.y);
 
-        osn.NodeObs.OBS_content_resizeDisplay("previewDisplay", displayWidth * scaleFactor, displayHeight * scaleFactor);
-        osn.NodeObs.OBS_content_moveDisplay("previewDisplay", displayX * scaleFactor, displayY * scaleFactor);
+        osn.NodeObs.OBS_content_resizeDisplay(
+            displayId, displayWidth * scaleFactor, displayHeight * scaleFactor,
+        );
+        osn.NodeObs.OBS_content_moveDisplay(
+            displayId, displayX * scaleFactor, displayY * scaleFactor,
+        );
 
         return { height: displayHeight };
     }
 
     private displayInfo() {
-        // eslint-disable-next-line
-        const { screen } = require("electron");
         const primaryDisplay = screen.getPrimaryDisplay();
         const { width, height } = primaryDisplay.size;
         const { scaleFactor } = primaryDisplay;
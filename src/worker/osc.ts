@@ -0,0 +1,201 @@
+import * as dgram from "dgram";
+import { Subject } from "rxjs";
+import { Store } from "../app/_helpers/store";
+import { settingsStoreOptions } from "../app/_globals/settingsStoreOptions";
+import { OscArgument, OscMessage } from "../app/_classes/oscMessage";
+
+const BUNDLE_TAG = "#bundle";
+
+// OSC strings are null terminated and padded to a multiple of four bytes
+function encodeString(value: string): Buffer {
+    const length = Buffer.byteLength(value);
+    const buffer = Buffer.alloc(Math.ceil((length + 1) / 4) * 4);
+    buffer.write(value);
+    return buffer;
+}
+
+function readString(buffer: Buffer, offset: number): { value: string; offset: number } {
+    const end = buffer.indexOf(0, offset);
+    if (end == -1) {
+        throw new Error("Unterminated string");
+    }
+    return {
+        value: buffer.toString("utf8", offset, end),
+        offset: Math.ceil((end + 1) / 4) * 4,
+    };
+}
+
+function encodeArgument(arg: OscArgument): { type: string; data?: Buffer } {
+    if (arg === null || arg === undefined) {
+        return { type: "N" };
+    }
+    if (typeof arg === "boolean") {
+        return { type: arg ? "T" : "F" };
+    }
+    if (typeof arg === "number") {
+        const data = Buffer.alloc(4);
+        if (Number.isInteger(arg)) {
+            data.writeInt32BE(arg, 0);
+            return { type: "i", data };
+        }
+        data.writeFloatBE(arg, 0);
+        return { type: "f", data };
+    }
+    return { type: "s", data: encodeString(arg) };
+}
+
+export function encodeOscMessage(message: OscMessage): Buffer {
+    const args = message.args.map(encodeArgument);
+    return Buffer.concat([
+        encodeString(message.address),
+        encodeString(`,${args.map((a) => a.type).join("")}`),
+        ...args.filter((a) => a.data).map((a) => a.data),
+    ]);
+}
+
+function decodeMessage(buffer: Buffer): OscMessage {
+    const address = readString(buffer, 0);
+    // Very old implementations don't send type tags
+    if (address.offset >= buffer.length) {
+        return { address: address.value, args: [] };
+    }
+    const types = readString(buffer, address.offset);
+    let { offset } = types;
+    const args: OscArgument[] = [];
+    for (const type of types.value.slice(1)) {
+        switch (type) {
+        case "i":
+            args.push(buffer.readInt32BE(offset));
+            offset += 4;
+            break;
+        case "f":
+            args.push(buffer.readFloatBE(offset));
+            offset += 4;
+            break;
+        case "d":
+            args.push(buffer.readDoubleBE(offset));
+            offset += 8;
+            break;
+        case "h":
+            args.push(Number(buffer.readBigInt64BE(offset)));
+            offset += 8;
+            break;
+        case "s":
+        case "S": {
+            const string = readString(buffer, offset);
+            args.push(string.value);
+            ({ offset } = string);
+            break;
+        }
+        case "b":
+            // blobs aren't used by any action, they are skipped
+            offset += Math.ceil((4 + buffer.readInt32BE(offset)) / 4) * 4;
+            args.push(null);
+            break;
+        case "T":
+            args.push(true);
+            break;
+        case "F":
+            args.push(false);
+            break;
+        case "N":
+        case "I":
+            args.push(null);
+            break;
+        default:
+            throw new Error(`Unsupported argument type "${type}"`);
+        }
+    }
+    return { address: address.value, args };
+}
+
+// Bundles are unpacked, their time tag is ignored and the messages are handled immediately
+export function decodeOscPacket(buffer: Buffer): OscMessage[] {
+    const tag = readString(buffer, 0);
+    if (tag.value != BUNDLE_TAG) {
+        return [decodeMessage(buffer)];
+    }
+    const messages: OscMessage[] = [];
+    // skip the time tag
+    let offset = tag.offset + 8;
+    while (offset < buffer.length) {
+        const size = buffer.readInt32BE(offset);
+        messages.push(...decodeOscPacket(buffer.slice(offset + 4, offset + 4 + size)));
+        offset += 4 + size;
+    }
+    return messages;
+}
+
+/**
+ * Listens for OSC messages over UDP and sends feedback to the configured targets.
+ * The messages are handled by the OscService in the renderer.
+ */
+export class OSC {
+    public messages: Subject<OscMessage> = new Subject();
+    public errors: Subject<string> = new Subject();
+    private socket: dgram.Socket;
+    private allowedSenders: string[] = [];
+    private feedbackTargets: { host: string; port: number }[] = [];
+
+    public updateSettings() {
+        this.stop();
+        const settingsStore = new Store(settingsStoreOptions);
+        if (!settingsStore.get("oscEnabled")) {
+            return;
+        }
+        this.allowedSenders = settingsStore.get("oscAllowedSenders");
+        this.feedbackTargets = (settingsStore.get("oscFeedbackTargets") as string[])
+            .map((target) => {
+                const [host, port] = target.split(":");
+                return { host, port: Number(port) };
+            })
+            .filter((target) => target.host && target.port > 0);
+        const socket = dgram.createSocket("udp4");
+        socket.on("message", (buffer, sender) => {
+            if (this.allowedSenders.length && !this.allowedSenders.includes(sender.address)) {
+                return;
+            }
+            try {
+                for (const message of decodeOscPacket(buffer)) {
+                    this.messages.next(message);
+                }
+            } catch (e) {
+                // eslint-disable-next-line no-console
+                console.warn(`Invalid OSC packet from ${sender.address}:`, e.message);
+            }
+        });
+        socket.on("error", (e) => {
+            this.errors.next(e.message);
+            this.stop();
+        });
+        socket.bind(settingsStore.get("oscPort"));
+        this.socket = socket;
+    }
+
+    public send(message: OscMessage) {
+        if (!this.socket) {
+            return;
+        }
+        const buffer = encodeOscMessage(message);
+        for (const { host, port } of this.feedbackTargets) {
+            // without a callback, errors would close the socket
+            this.socket.send(buffer, port, host, (e) => {
+                if (e) {
+                    // eslint-disable-next-line no-console
+                    console.warn(`Could not send OSC feedback to ${host}:${port}:`, e.message);
+                }
+            });
+        }
+    }
+
+    public stop() {
+        if (this.socket) {
+            try {
+                this.socket.close();
+            } catch {
+                // the socket wasn't bound
+            }
+            this.socket = undefined;
+        }
+    }
+}